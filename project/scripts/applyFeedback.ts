@@ -0,0 +1,152 @@
+/*
+  Fold user corrections from classification_feedback into the classifier.
+
+  Learns per-term adjustments and writes them to src/lib/classifierFeedback.json,
+  which classifyNews applies on top of keyword or model scores. Corrections can
+  also be exported as labeled examples to retrain the model with:
+
+    npm run train:classifier -- --data data/train.jsonl --data data/feedback.jsonl
+
+  Usage: npm run apply:feedback -- [--input corrections.jsonl] [--export data/feedback.jsonl]
+           [--min-support 2] [--learning-rate 0.5] [--model public/models/news-classifier]
+
+  Without --input, corrections are read from Supabase using SUPABASE_URL and
+  SUPABASE_SERVICE_ROLE_KEY, since row level security hides other users' rows.
+  With those set, the before and after counts are measured against the live
+  taxonomy and, when it still fits the taxonomy, the trained model, as the app
+  classifies. Otherwise the output says what they were measured with.
+*/
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import * as tf from '@tensorflow/tfjs';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { FeedbackCorrection, learnFeedbackAdjustments } from '../src/lib/feedbackAdjustments';
+import {
+  classifyNews,
+  getClassifierStatus,
+  loadClassifierModel,
+  setFeedbackAdjustments,
+  setTaxonomy
+} from '../src/lib/newsClassifier';
+import { TAXONOMY_COLUMNS, TaxonomyCategoryRow, taxonomyFromRows } from '../src/lib/taxonomy';
+import { parseJsonl } from '../src/lib/datasetFormats';
+import { fileLoadHandler } from './modelFiles';
+
+const FEEDBACK_FILE = 'src/lib/classifierFeedback.json';
+
+interface FeedbackRow {
+  text: string;
+  predicted_category: string;
+  corrected_category: string;
+}
+
+const toCorrection = (row: FeedbackRow): FeedbackCorrection => ({
+  text: row.text,
+  predictedCategory: row.predicted_category,
+  correctedCategory: row.corrected_category
+});
+
+const readCorrectionsFromFile = async (file: string): Promise<FeedbackCorrection[]> => {
+  const rows = parseJsonl(await readFile(file, 'utf8')) as unknown as FeedbackRow[];
+  return rows.map(toCorrection);
+};
+
+// Null without credentials
+const createServiceClient = (): SupabaseClient | null => {
+  const url = process.env.SUPABASE_URL ?? process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  return url && serviceKey ? createClient(url, serviceKey, { auth: { persistSession: false } }) : null;
+};
+
+const readCorrectionsFromSupabase = async (supabase: SupabaseClient | null): Promise<FeedbackCorrection[]> => {
+  if (!supabase) {
+    throw new Error('Set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY, or pass --input');
+  }
+
+  const { data, error } = await supabase
+    .from('classification_feedback')
+    .select('text, predicted_category, corrected_category')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data as FeedbackRow[]).map(toCorrection);
+};
+
+// Classify with the taxonomy admins maintain, as the app does once it loads
+const applyLiveTaxonomy = async (supabase: SupabaseClient): Promise<number> => {
+  const { data, error } = await supabase
+    .from('taxonomy_categories')
+    .select(TAXONOMY_COLUMNS)
+    .order('position', { ascending: true });
+
+  if (error) throw error;
+  const taxonomy = taxonomyFromRows(data as TaxonomyCategoryRow[] || []);
+  if (taxonomy.categories.length === 0) throw new Error('The live taxonomy is empty');
+  setTaxonomy(taxonomy);
+  return taxonomy.categories.length;
+};
+
+const countCorrected = (corrections: FeedbackCorrection[]) => {
+  return corrections.filter(({ text, correctedCategory }) =>
+    classifyNews(text).category === correctedCategory
+  ).length;
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      input: { type: 'string' },
+      export: { type: 'string' },
+      'min-support': { type: 'string', default: '2' },
+      'learning-rate': { type: 'string', default: '0.5' },
+      model: { type: 'string', default: 'public/models/news-classifier' }
+    }
+  });
+
+  const supabase = createServiceClient();
+  const corrections = values.input
+    ? await readCorrectionsFromFile(values.input)
+    : await readCorrectionsFromSupabase(supabase);
+  console.log(`Loaded ${corrections.length} corrections`);
+
+  await tf.setBackend('cpu');
+  const modelLoaded = await loadClassifierModel(fileLoadHandler(values.model!));
+  const taxonomy = supabase
+    ? `live taxonomy (${await applyLiveTaxonomy(supabase)} categories)`
+    : 'built-in taxonomy (set SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY for the live one)';
+  const { modelInUse } = getClassifierStatus();
+  const scorer = modelInUse
+    ? 'trained model'
+    : `keyword scorer only (${modelLoaded ? 'the model does not match the taxonomy' : `no model at ${values.model}`})`;
+  console.log(`Measuring with the ${scorer} and the ${taxonomy}`);
+
+  // Measure against the classifier without any previous feedback applied
+  setFeedbackAdjustments({ generatedAt: null, corrections: 0, terms: {} });
+  const before = countCorrected(corrections);
+
+  const adjustments = learnFeedbackAdjustments(corrections, {
+    minSupport: Number(values['min-support']),
+    learningRate: Number(values['learning-rate'])
+  });
+  setFeedbackAdjustments(adjustments);
+  const after = countCorrected(corrections);
+
+  console.log(`Learned adjustments for ${Object.keys(adjustments.terms).length} terms`);
+  console.log(`Corrections classified as the user said: ${before} -> ${after} of ${corrections.length}`);
+
+  await writeFile(FEEDBACK_FILE, `${JSON.stringify(adjustments, null, 2)}\n`);
+  console.log(`Adjustments written to ${FEEDBACK_FILE}`);
+
+  if (values.export) {
+    const lines = corrections.map(({ text, correctedCategory }) =>
+      JSON.stringify({ text, category: correctedCategory })
+    );
+    await writeFile(values.export, `${lines.join('\n')}\n`);
+    console.log(`Labeled examples written to ${values.export}`);
+  }
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,86 @@
+/*
+  Local stand-in for the extract-article edge function.
+
+  Usage: npm run extract-article -- [--port 54330] [--quota 500] [--fixtures public/fixtures/articles]
+
+  Without --fixtures, article pages are fetched from the web exactly as the
+  edge function does. With --fixtures, a page is read from <dir>/<name>.html,
+  where <name> is the last segment of the article URL's path, so no network
+  access is needed.
+
+  Bearer tokens are decoded but not verified, and quotas are kept in memory.
+  Point the app at it with VITE_ARTICLE_EXTRACT_URL=http://localhost:54330
+*/
+import { lookup } from 'node:dns/promises';
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { createArticleExtractHandler, DEFAULT_EXTRACT_DAILY_QUOTA } from '../supabase/functions/_shared/articleExtraction';
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: '54330' },
+    quota: { type: 'string', default: String(DEFAULT_EXTRACT_DAILY_QUOTA) },
+    fixtures: { type: 'string' }
+  }
+});
+
+const fixturesDir = values.fixtures;
+const usage = new Map<string, number>();
+
+// Supabase access tokens carry the user id in `sub`
+const decodeUserId = (token: string): string | null => {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+    return typeof payload.sub === 'string' ? payload.sub : null;
+  } catch {
+    return null;
+  }
+};
+
+const fixturePage = async (dir: string, url: URL): Promise<Response> => {
+  try {
+    const html = await readFile(join(dir, `${basename(url.pathname)}.html`), 'utf8');
+    return new Response(html, { headers: { 'Content-Type': 'text/html' } });
+  } catch {
+    return new Response('Article fixture not found', { status: 404 });
+  }
+};
+
+const handler = createArticleExtractHandler({
+  dailyQuota: Number(values.quota) || DEFAULT_EXTRACT_DAILY_QUOTA,
+  authenticate: async (token) => decodeUserId(token),
+  consumeQuota: async (userId, limit) => {
+    const key = `${userId}:${new Date().toISOString().slice(0, 10)}`;
+    const used = usage.get(key) ?? 0;
+    if (used >= limit) return -1;
+    usage.set(key, used + 1);
+    return limit - used - 1;
+  },
+  resolveHost: async (hostname) => (await lookup(hostname, { all: true })).map(entry => entry.address),
+  fetchUpstream: fixturesDir
+    ? async (articleUrl) => fixturePage(fixturesDir, new URL(articleUrl))
+    : undefined
+});
+
+const server = createServer(async (req, res) => {
+  const headers = new Headers();
+  Object.entries(req.headers).forEach(([name, value]) => {
+    if (typeof value === 'string') headers.set(name, value);
+  });
+
+  const response = await handler(new Request(`http://localhost${req.url ?? '/'}`, {
+    method: req.method,
+    headers
+  }));
+
+  response.headers.forEach((value, name) => res.setHeader(name, value));
+  res.writeHead(response.status);
+  res.end(await response.text());
+});
+
+server.listen(Number(values.port), () => {
+  const mode = fixturesDir ? `fixtures from ${fixturesDir}` : 'the web';
+  console.log(`Article extractor listening on http://localhost:${values.port} (${mode})`);
+});
@@ -0,0 +1,195 @@
+/*
+  Fit softmax temperatures for the keyword scorer and the trained model, and
+  per-category multi-label thresholds, on a held-out labeled set, and write
+  them to src/lib/classifierCalibration.json.
+
+  Usage: npm run calibrate:classifier -- [--data data/heldout.jsonl]
+           [--model public/models/news-classifier] [--threshold 0.4]
+*/
+import { readFile, writeFile } from 'node:fs/promises';
+import { parseArgs } from 'node:util';
+import * as tf from '@tensorflow/tfjs';
+import {
+  applyTemperature,
+  CalibrationParams,
+  CategoryScores,
+  loadClassifierModel,
+  scoreCategories
+} from '../src/lib/newsClassifier';
+import { LabeledExample, readLabeledExamples } from './labeledData';
+import { fileLoadHandler } from './modelFiles';
+
+const CALIBRATION_FILE = 'src/lib/classifierCalibration.json';
+
+// Log-spaced candidates from 0.01 to 100
+const TEMPERATURE_GRID = Array.from({ length: 201 }, (_, i) => Math.pow(10, -2 + i / 50));
+// Multi-label threshold candidates, 0.05 to 0.95
+const LABEL_THRESHOLD_GRID = Array.from({ length: 19 }, (_, i) => Number((0.05 + i * 0.05).toFixed(2)));
+// Categories with fewer held-out examples than this keep the default threshold
+const MIN_THRESHOLD_SUPPORT = 5;
+
+interface ScoredExample {
+  scores: CategoryScores;
+  labelIndex: number;
+}
+
+const scoreExamples = (examples: LabeledExample[]): ScoredExample[] => {
+  return examples
+    .map(example => {
+      const scores = scoreCategories(example.text);
+      return {
+        scores,
+        labelIndex: scores.logits.findIndex(({ category }) => category === example.category)
+      };
+    })
+    .filter(example => example.labelIndex >= 0);
+};
+
+const negativeLogLikelihood = (examples: ScoredExample[], temperature: number) => {
+  const total = examples.reduce((sum, { scores, labelIndex }) => {
+    const probabilities = applyTemperature(scores.logits.map(({ logit }) => logit), temperature);
+    return sum - Math.log(Math.max(probabilities[labelIndex], 1e-12));
+  }, 0);
+  return total / examples.length;
+};
+
+const fitTemperature = (examples: ScoredExample[]) => {
+  return TEMPERATURE_GRID.reduce((best, temperature) =>
+    negativeLogLikelihood(examples, temperature) < negativeLogLikelihood(examples, best)
+      ? temperature
+      : best
+  );
+};
+
+// Share of examples above the threshold, and how often those were right
+const summarizeThreshold = (examples: ScoredExample[], temperature: number, threshold: number) => {
+  let accepted = 0;
+  let correct = 0;
+
+  examples.forEach(({ scores, labelIndex }) => {
+    const probabilities = applyTemperature(scores.logits.map(({ logit }) => logit), temperature);
+    const top = probabilities.indexOf(Math.max(...probabilities));
+    if (scores.hasEvidence && probabilities[top] >= threshold) {
+      accepted++;
+      if (top === labelIndex) correct++;
+    }
+  });
+
+  return {
+    coverage: accepted / examples.length,
+    accuracy: accepted > 0 ? correct / accepted : 0
+  };
+};
+
+const calibrateSource = (name: string, examples: ScoredExample[], threshold: number) => {
+  const temperature = fitTemperature(examples);
+  const { coverage, accuracy } = summarizeThreshold(examples, temperature, threshold);
+
+  console.log(`${name}:`);
+  console.log(`  temperature ${temperature.toFixed(4)}`);
+  console.log(
+    `  NLL ${negativeLogLikelihood(examples, 1).toFixed(4)} -> ` +
+    `${negativeLogLikelihood(examples, temperature).toFixed(4)}`
+  );
+  console.log(
+    `  at threshold ${threshold}: ${(coverage * 100).toFixed(1)}% categorized, ` +
+    `${(accuracy * 100).toFixed(1)}% of those correct`
+  );
+
+  return Number(temperature.toFixed(4));
+};
+
+// Per category, the multi-label threshold that maximizes its F1 on the
+// held-out set. As in classifyNews, a category is a label when it is the
+// confident winner or its probability reaches its threshold. Ties go to the
+// higher threshold, which adds fewer labels.
+const fitLabelThresholds = (examples: ScoredExample[], temperature: number, uncategorizedThreshold: number) => {
+  const probabilities = examples.map(({ scores }) =>
+    applyTemperature(scores.logits.map(({ logit }) => logit), temperature)
+  );
+  const categories = examples[0]?.scores.logits.map(({ category }) => category) ?? [];
+  const thresholds: Record<string, number> = {};
+
+  console.log('multi-label thresholds:');
+  categories.forEach((category, index) => {
+    const support = examples.filter(example => example.labelIndex === index).length;
+    if (support < MIN_THRESHOLD_SUPPORT) {
+      console.log(`  ${category}: ${support} examples, keeping the default`);
+      return;
+    }
+
+    let best = { threshold: 0, f1: -1 };
+    LABEL_THRESHOLD_GRID.forEach(threshold => {
+      let truePositives = 0;
+      let falsePositives = 0;
+      examples.forEach(({ scores, labelIndex }, exampleIndex) => {
+        const exampleProbabilities = probabilities[exampleIndex];
+        const top = exampleProbabilities.indexOf(Math.max(...exampleProbabilities));
+        const isLabel = scores.hasEvidence && (
+          (top === index && exampleProbabilities[top] >= uncategorizedThreshold) ||
+          exampleProbabilities[index] >= threshold
+        );
+        if (!isLabel) return;
+        if (labelIndex === index) {
+          truePositives++;
+        } else {
+          falsePositives++;
+        }
+      });
+      const f1 = (2 * truePositives) / (truePositives + falsePositives + support);
+      if (f1 >= best.f1) best = { threshold, f1 };
+    });
+
+    console.log(`  ${category}: ${best.threshold} (F1 ${best.f1.toFixed(3)} on ${support} examples)`);
+    thresholds[category] = best.threshold;
+  });
+
+  return thresholds;
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      data: { type: 'string', default: 'data/heldout.jsonl' },
+      model: { type: 'string', default: 'public/models/news-classifier' },
+      threshold: { type: 'string' }
+    }
+  });
+
+  await tf.setBackend('cpu');
+
+  const current = JSON.parse(await readFile(CALIBRATION_FILE, 'utf8')) as CalibrationParams;
+  const threshold = values.threshold ? Number(values.threshold) : current.uncategorizedThreshold;
+  const examples = await readLabeledExamples(values.data!);
+
+  // Score with keywords first; once the model loads scoreCategories switches to it
+  const keywordExamples = scoreExamples(examples);
+  const keywordTemperature = calibrateSource('keywords', keywordExamples, threshold);
+
+  let modelTemperature = current.model.temperature;
+  // Thresholds are fitted on whichever scorer the app will use
+  let thresholds: Record<string, number>;
+  if (await loadClassifierModel(fileLoadHandler(values.model!))) {
+    const modelExamples = scoreExamples(examples);
+    modelTemperature = calibrateSource('model', modelExamples, threshold);
+    thresholds = fitLabelThresholds(modelExamples, modelTemperature, threshold);
+  } else {
+    console.log(`model: not found at ${values.model}, keeping temperature ${modelTemperature}`);
+    thresholds = fitLabelThresholds(keywordExamples, keywordTemperature, threshold);
+  }
+
+  const params: CalibrationParams = {
+    ...current,
+    uncategorizedThreshold: threshold,
+    keywords: { temperature: keywordTemperature },
+    model: { temperature: modelTemperature },
+    multiLabel: { ...current.multiLabel, thresholds }
+  };
+  await writeFile(CALIBRATION_FILE, `${JSON.stringify(params, null, 2)}\n`);
+  console.log(`\nCalibration written to ${CALIBRATION_FILE}`);
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
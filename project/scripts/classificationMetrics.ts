@@ -0,0 +1,65 @@
+export interface CategoryMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  support: number;
+}
+
+export interface EvaluationMetrics {
+  total: number;
+  accuracy: number;
+  macroF1: number;
+  labels: string[];
+  perCategory: Record<string, CategoryMetrics>;
+  // Rows are actual labels, columns are predicted labels, both in `labels` order
+  confusionMatrix: number[][];
+}
+
+const safeDivide = (numerator: number, denominator: number) =>
+  denominator > 0 ? numerator / denominator : 0;
+
+export const computeMetrics = (
+  actual: string[],
+  predicted: string[],
+  labelOrder: string[] = []
+): EvaluationMetrics => {
+  const labels = Array.from(new Set([...labelOrder, ...actual, ...predicted]));
+  const labelIndex = new Map(labels.map((label, index) => [label, index]));
+  const confusionMatrix = labels.map(() => labels.map(() => 0));
+
+  actual.forEach((label, i) => {
+    confusionMatrix[labelIndex.get(label)!][labelIndex.get(predicted[i])!]++;
+  });
+
+  const perCategory: Record<string, CategoryMetrics> = {};
+  labels.forEach((label, index) => {
+    const truePositives = confusionMatrix[index][index];
+    const support = confusionMatrix[index].reduce((sum, count) => sum + count, 0);
+    const predictedCount = confusionMatrix.reduce((sum, row) => sum + row[index], 0);
+    const precision = safeDivide(truePositives, predictedCount);
+    const recall = safeDivide(truePositives, support);
+
+    perCategory[label] = {
+      precision,
+      recall,
+      f1: safeDivide(2 * precision * recall, precision + recall),
+      support
+    };
+  });
+
+  // Macro averages only cover labels that actually occur in the gold data
+  const scoredLabels = labels.filter(label => perCategory[label].support > 0);
+  const correct = labels.reduce((sum, _, index) => sum + confusionMatrix[index][index], 0);
+
+  return {
+    total: actual.length,
+    accuracy: safeDivide(correct, actual.length),
+    macroF1: safeDivide(
+      scoredLabels.reduce((sum, label) => sum + perCategory[label].f1, 0),
+      scoredLabels.length
+    ),
+    labels,
+    perCategory,
+    confusionMatrix
+  };
+};
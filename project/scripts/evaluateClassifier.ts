@@ -0,0 +1,128 @@
+/*
+  Run classifyNews over a labeled corpus and report accuracy, macro-F1,
+  per-category precision/recall and a confusion matrix.
+
+  Usage: npm run evaluate:classifier -- [--data data/eval.jsonl] [--out reports/eval.json]
+           [--model public/models/news-classifier] [--text-column title --text-column description]
+           [--label-column category] [--baseline reports/previous.json]
+
+  Without --model the keyword scorer is evaluated, which is what the app
+  falls back to when the trained model cannot be loaded.
+*/
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import * as tf from '@tensorflow/tfjs';
+import { classifyNews, loadClassifierModel } from '../src/lib/newsClassifier';
+import { computeMetrics, EvaluationMetrics } from './classificationMetrics';
+import { readLabeledExamples } from './labeledData';
+import { fileLoadHandler } from './modelFiles';
+
+interface EvaluationReport extends EvaluationMetrics {
+  generatedAt: string;
+  dataset: string;
+  classifier: 'model' | 'keywords';
+}
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const printReport = (report: EvaluationReport) => {
+  console.log(`Dataset:    ${report.dataset} (${report.total} examples)`);
+  console.log(`Classifier: ${report.classifier}`);
+  console.log(`Accuracy:   ${formatPercent(report.accuracy)}`);
+  console.log(`Macro-F1:   ${formatPercent(report.macroF1)}\n`);
+
+  console.table(Object.fromEntries(
+    Object.entries(report.perCategory).map(([category, metrics]) => [category, {
+      precision: formatPercent(metrics.precision),
+      recall: formatPercent(metrics.recall),
+      f1: formatPercent(metrics.f1),
+      support: metrics.support
+    }])
+  ));
+
+  console.log('Confusion matrix (rows = actual, columns = predicted):');
+  console.table(Object.fromEntries(
+    report.labels.map((actual, row) => [
+      actual,
+      Object.fromEntries(report.labels.map((predicted, column) => [
+        predicted,
+        report.confusionMatrix[row][column]
+      ]))
+    ])
+  ));
+};
+
+const formatDelta = (current: number, previous: number) => {
+  const delta = (current - previous) * 100;
+  return `${delta >= 0 ? '+' : ''}${delta.toFixed(1)} pts`;
+};
+
+const printComparison = (report: EvaluationReport, baseline: EvaluationReport) => {
+  console.log(`Compared with ${baseline.dataset} (${baseline.classifier}, ${baseline.generatedAt}):`);
+  console.log(`  accuracy ${formatDelta(report.accuracy, baseline.accuracy)}`);
+  console.log(`  macro-F1 ${formatDelta(report.macroF1, baseline.macroF1)}`);
+
+  Object.entries(report.perCategory).forEach(([category, metrics]) => {
+    const previous = baseline.perCategory[category];
+    if (!previous) return;
+    console.log(
+      `  ${category}: precision ${formatDelta(metrics.precision, previous.precision)}, ` +
+      `recall ${formatDelta(metrics.recall, previous.recall)}`
+    );
+  });
+};
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      data: { type: 'string', default: 'data/eval.jsonl' },
+      out: { type: 'string', default: 'reports/eval.json' },
+      model: { type: 'string' },
+      'text-column': { type: 'string', multiple: true },
+      'label-column': { type: 'string', default: 'category' },
+      baseline: { type: 'string' }
+    }
+  });
+
+  await tf.setBackend('cpu');
+
+  const useModel = values.model
+    ? await loadClassifierModel(fileLoadHandler(values.model))
+    : false;
+  if (values.model && !useModel) {
+    throw new Error(`Could not load model from ${values.model}`);
+  }
+
+  const examples = await readLabeledExamples(values.data!, {
+    textColumns: values['text-column'],
+    labelColumn: values['label-column']
+  });
+  if (examples.length === 0) {
+    throw new Error(`No labeled examples found in ${values.data}`);
+  }
+
+  const predicted = examples.map(example => classifyNews(example.text).category);
+  const report: EvaluationReport = {
+    generatedAt: new Date().toISOString(),
+    dataset: values.data!,
+    classifier: useModel ? 'model' : 'keywords',
+    ...computeMetrics(examples.map(example => example.category), predicted)
+  };
+
+  printReport(report);
+
+  await mkdir(path.dirname(values.out!), { recursive: true });
+  await writeFile(values.out!, `${JSON.stringify(report, null, 2)}\n`);
+  console.log(`\nReport written to ${values.out}`);
+
+  if (values.baseline) {
+    const baseline = JSON.parse(await readFile(values.baseline, 'utf8')) as EvaluationReport;
+    printComparison(report, baseline);
+  }
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,27 @@
+import { readFile } from 'node:fs/promises';
+import { detectDatasetFormat, parseDataset } from '../src/lib/datasetFormats';
+
+export interface LabeledExample {
+  text: string;
+  category: string;
+}
+
+export interface LabeledDataOptions {
+  textColumns?: string[];
+  labelColumn?: string;
+}
+
+// Read a labeled JSONL or CSV corpus; text columns are joined with spaces
+export const readLabeledExamples = async (
+  file: string,
+  { textColumns = ['text'], labelColumn = 'category' }: LabeledDataOptions = {}
+): Promise<LabeledExample[]> => {
+  const records = parseDataset(await readFile(file, 'utf8'), detectDatasetFormat(file));
+
+  return records
+    .map(record => ({
+      text: textColumns.map(column => record[column] ?? '').join(' ').trim(),
+      category: (record[labelColumn] ?? '').trim()
+    }))
+    .filter(example => example.text && example.category);
+};
@@ -0,0 +1,60 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import * as tf from '@tensorflow/tfjs';
+
+const MODEL_FILE = 'model.json';
+const WEIGHTS_FILE = 'weights.bin';
+
+// Write a layers model as model.json + weights.bin, the layout tf.loadLayersModel fetches over HTTP
+export const fileSaveHandler = (directory: string): tf.io.IOHandler => {
+  return tf.io.withSaveHandler(async (artifacts) => {
+    await mkdir(directory, { recursive: true });
+
+    const weightData = artifacts.weightData
+      ? tf.io.CompositeArrayBuffer.join(artifacts.weightData)
+      : new ArrayBuffer(0);
+
+    const modelJson: tf.io.ModelJSON = {
+      modelTopology: artifacts.modelTopology as tf.io.ModelJSON['modelTopology'],
+      format: artifacts.format,
+      generatedBy: artifacts.generatedBy,
+      convertedBy: artifacts.convertedBy,
+      userDefinedMetadata: artifacts.userDefinedMetadata,
+      weightsManifest: [{
+        paths: [WEIGHTS_FILE],
+        weights: artifacts.weightSpecs ?? []
+      }]
+    };
+
+    await writeFile(path.join(directory, MODEL_FILE), JSON.stringify(modelJson));
+    await writeFile(path.join(directory, WEIGHTS_FILE), Buffer.from(weightData));
+
+    return {
+      modelArtifactsInfo: {
+        dateSaved: new Date(),
+        modelTopologyType: 'JSON',
+        weightDataBytes: weightData.byteLength
+      }
+    };
+  });
+};
+
+// Read a model saved by fileSaveHandler without going through HTTP
+export const fileLoadHandler = (directory: string): tf.io.IOHandler => ({
+  load: async () => {
+    const modelJson = JSON.parse(
+      await readFile(path.join(directory, MODEL_FILE), 'utf8')
+    ) as tf.io.ModelJSON;
+
+    return tf.io.getModelArtifactsForJSON(modelJson, async (manifest) => {
+      const weightSpecs = manifest.flatMap(group => group.weights);
+      const buffers = await Promise.all(
+        manifest.flatMap(group => group.paths).map(async (file) => {
+          const data = await readFile(path.join(directory, file));
+          return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+        })
+      );
+      return [weightSpecs, tf.io.CompositeArrayBuffer.join(buffers)];
+    });
+  }
+});
@@ -0,0 +1,120 @@
+/*
+  Local stand-in for the news-proxy edge function, for development and tests.
+
+  Usage: npm run news-proxy -- [--port 54329] [--quota 200] [--fixtures public/fixtures]
+
+  With NEWS_API_KEY set, requests are relayed to NewsAPI exactly as the edge
+  function does. With --fixtures, NewsAPI queries are answered from
+  <dir>/news.json and feeds from the file in <dir> with the same name as the
+  feed URL, so neither a key nor network access is needed.
+
+  Bearer tokens are decoded but not verified, and quotas are kept in memory.
+  Point the app at it with VITE_NEWS_PROXY_URL=http://localhost:54329
+*/
+import { lookup } from 'node:dns/promises';
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+import { basename, join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { createNewsProxyHandler, DEFAULT_DAILY_QUOTA } from '../supabase/functions/_shared/newsProxy';
+
+interface FixtureArticle {
+  source?: string | { name: string };
+  title: string;
+  description?: string;
+  content?: string;
+  [field: string]: unknown;
+}
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: '54329' },
+    quota: { type: 'string', default: String(DEFAULT_DAILY_QUOTA) },
+    fixtures: { type: 'string' }
+  }
+});
+
+const fixturesDir = values.fixtures;
+const usage = new Map<string, number>();
+
+// Supabase access tokens carry the user id in `sub`
+const decodeUserId = (token: string): string | null => {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf8'));
+    return typeof payload.sub === 'string' ? payload.sub : null;
+  } catch {
+    return null;
+  }
+};
+
+// Answer NewsAPI queries from news.json, in NewsAPI's response shape
+const fixtureHeadlines = async (dir: string, url: URL): Promise<Response> => {
+  const json = JSON.parse(await readFile(join(dir, 'news.json'), 'utf8'));
+  const fixtures: FixtureArticle[] = Array.isArray(json) ? json : json.articles;
+
+  const query = url.searchParams.get('q')?.toLowerCase();
+  const matches = fixtures.filter(article =>
+    !query || `${article.title} ${article.description ?? ''} ${article.content ?? ''}`.toLowerCase().includes(query)
+  );
+
+  const pageSize = Number(url.searchParams.get('pageSize')) || 20;
+  const page = Number(url.searchParams.get('page')) || 1;
+  const articles = matches.slice((page - 1) * pageSize, page * pageSize).map(article => ({
+    ...article,
+    source: typeof article.source === 'object' ? article.source : { id: null, name: article.source ?? 'Fixtures' }
+  }));
+
+  return Response.json({ status: 'ok', totalResults: matches.length, articles });
+};
+
+const fixtureFeed = async (dir: string, url: URL): Promise<Response> => {
+  try {
+    const xml = await readFile(join(dir, basename(url.pathname)), 'utf8');
+    return new Response(xml, { headers: { 'Content-Type': 'application/xml' } });
+  } catch {
+    return new Response('Feed fixture not found', { status: 404 });
+  }
+};
+
+const handler = createNewsProxyHandler({
+  apiKey: fixturesDir ? 'fixtures' : process.env.NEWS_API_KEY ?? '',
+  dailyQuota: Number(values.quota) || DEFAULT_DAILY_QUOTA,
+  authenticate: async (token) => decodeUserId(token),
+  consumeQuota: async (userId, limit) => {
+    const key = `${userId}:${new Date().toISOString().slice(0, 10)}`;
+    const used = usage.get(key) ?? 0;
+    if (used >= limit) return -1;
+    usage.set(key, used + 1);
+    return limit - used - 1;
+  },
+  resolveHost: async (hostname) => (await lookup(hostname, { all: true })).map(entry => entry.address),
+  fetchUpstream: fixturesDir
+    ? async (upstreamUrl) => {
+      const url = new URL(upstreamUrl);
+      return url.hostname === 'newsapi.org'
+        ? fixtureHeadlines(fixturesDir, url)
+        : fixtureFeed(fixturesDir, url);
+    }
+    : undefined
+});
+
+const server = createServer(async (req, res) => {
+  const headers = new Headers();
+  Object.entries(req.headers).forEach(([name, value]) => {
+    if (typeof value === 'string') headers.set(name, value);
+  });
+
+  const response = await handler(new Request(`http://localhost${req.url ?? '/'}`, {
+    method: req.method,
+    headers
+  }));
+
+  response.headers.forEach((value, name) => res.setHeader(name, value));
+  res.writeHead(response.status);
+  res.end(await response.text());
+});
+
+server.listen(Number(values.port), () => {
+  const mode = fixturesDir ? `fixtures from ${fixturesDir}` : 'NewsAPI';
+  console.log(`News proxy listening on http://localhost:${values.port} (${mode})`);
+});
@@ -0,0 +1,79 @@
+/*
+  Train the news topic classifier offline and write the TF.js artifact the browser loads.
+
+  Usage: npm run train:classifier -- [--data data/train.jsonl ...] [--out public/models/news-classifier] [--epochs 30]
+
+  --data can be repeated, e.g. to add corrections exported by apply:feedback.
+*/
+import { parseArgs } from 'node:util';
+import * as tf from '@tensorflow/tfjs';
+import {
+  buildVocabulary,
+  createNewsModel,
+  createWordIndex,
+  encodeText,
+  NewsModelMetadata
+} from '../src/lib/newsModel';
+import { readLabeledExamples } from './labeledData';
+import { fileSaveHandler } from './modelFiles';
+
+const main = async () => {
+  const { values } = parseArgs({
+    options: {
+      data: { type: 'string', multiple: true, default: ['data/train.jsonl'] },
+      out: { type: 'string', default: 'public/models/news-classifier' },
+      epochs: { type: 'string', default: '30' }
+    }
+  });
+
+  await tf.setBackend('cpu');
+
+  const examples = (await Promise.all(values.data!.map(file => readLabeledExamples(file)))).flat();
+  tf.util.shuffle(examples);
+
+  const labels = Array.from(new Set(examples.map(example => example.category)));
+  const vocabulary = buildVocabulary(examples.map(example => example.text));
+  const wordIndex = createWordIndex(vocabulary);
+
+  console.log(`Training on ${examples.length} examples, ${labels.length} labels, ${vocabulary.length} words`);
+
+  const xs = tf.tensor2d(
+    examples.map(example => encodeText(example.text, wordIndex)),
+    [examples.length, vocabulary.length]
+  );
+  const ys = tf.oneHot(
+    tf.tensor1d(examples.map(example => labels.indexOf(example.category)), 'int32'),
+    labels.length
+  );
+
+  const model = createNewsModel(vocabulary.length, labels.length);
+  await model.fit(xs, ys, {
+    epochs: Number(values.epochs),
+    batchSize: 16,
+    shuffle: true,
+    validationSplit: 0.1,
+    verbose: 0,
+    callbacks: {
+      onEpochEnd: (epoch, logs) => {
+        if ((epoch + 1) % 10 === 0) {
+          console.log(
+            `epoch ${epoch + 1}: loss=${logs?.loss.toFixed(4)} acc=${logs?.acc.toFixed(3)} ` +
+            `val_acc=${logs?.val_acc?.toFixed(3)}`
+          );
+        }
+      }
+    }
+  });
+
+  const metadata: NewsModelMetadata = { labels, vocabulary };
+  model.setUserDefinedMetadata(metadata);
+  await model.save(fileSaveHandler(values.out!));
+
+  tf.dispose([xs, ys]);
+  console.log(`Model written to ${values.out}`);
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -1,13 +1,43 @@
-import React, { useEffect } from 'react';
+import { useEffect } from 'react';
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom';
 import { useAuthStore } from './store/authStore';
+import { useTaxonomyStore } from './store/taxonomyStore';
+import { usePreferencesStore } from './store/preferencesStore';
 import Login from './pages/Login';
 import Home from './pages/Home';
 import Dashboard from './pages/Dashboard';
+import TaxonomyAdmin from './pages/TaxonomyAdmin';
+import FeedbackHistory from './pages/FeedbackHistory';
+import BulkClassify from './pages/BulkClassify';
+import EntityPage from './pages/EntityPage';
+import ReadingHistory from './pages/ReadingHistory';
+import Onboarding from './pages/Onboarding';
+import Settings from './pages/Settings';
+import Analytics from './pages/Analytics';
 import PrivateRoute from './components/PrivateRoute';
 
 function App() {
   const user = useAuthStore((state) => state.user);
+  const loadTaxonomy = useTaxonomyStore((state) => state.loadTaxonomy);
+  const loadPreferences = usePreferencesStore((state) => state.loadPreferences);
+  const resetPreferences = usePreferencesStore((state) => state.resetPreferences);
+
+  // The taxonomy is only readable once signed in
+  useEffect(() => {
+    if (user) {
+      loadTaxonomy();
+    }
+  }, [user, loadTaxonomy]);
+
+  // Only a different user needs other preferences; token refreshes keep the id
+  const userId = user?.id;
+  useEffect(() => {
+    if (userId) {
+      loadPreferences(userId);
+    } else {
+      resetPreferences();
+    }
+  }, [userId, loadPreferences, resetPreferences]);
 
   return (
     <Router>
@@ -27,6 +57,46 @@ function App() {
               <Dashboard />
             </PrivateRoute>
           } />
+          <Route path="/history" element={
+            <PrivateRoute>
+              <ReadingHistory />
+            </PrivateRoute>
+          } />
+          <Route path="/onboarding" element={
+            <PrivateRoute>
+              <Onboarding />
+            </PrivateRoute>
+          } />
+          <Route path="/settings" element={
+            <PrivateRoute>
+              <Settings />
+            </PrivateRoute>
+          } />
+          <Route path="/analytics" element={
+            <PrivateRoute>
+              <Analytics />
+            </PrivateRoute>
+          } />
+          <Route path="/feedback" element={
+            <PrivateRoute>
+              <FeedbackHistory />
+            </PrivateRoute>
+          } />
+          <Route path="/classify/bulk" element={
+            <PrivateRoute>
+              <BulkClassify />
+            </PrivateRoute>
+          } />
+          <Route path="/entity/:name" element={
+            <PrivateRoute>
+              <EntityPage />
+            </PrivateRoute>
+          } />
+          <Route path="/admin/taxonomy" element={
+            <PrivateRoute>
+              <TaxonomyAdmin />
+            </PrivateRoute>
+          } />
         </Routes>
       </div>
     </Router>
@@ -0,0 +1,38 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+
+interface CategoryBadgeProps {
+  category: string;
+  confidence?: number;
+  sourceCategory?: string | null;
+  className?: string;
+}
+
+// Predicted category with its confidence, flagged when the source filed the article elsewhere
+const CategoryBadge: React.FC<CategoryBadgeProps> = ({ category, confidence, sourceCategory, className = '' }) => {
+  const disagrees = !!sourceCategory && sourceCategory.toLowerCase() !== category.toLowerCase();
+
+  return (
+    <span className={`inline-flex items-center gap-1 ${className}`}>
+      <span className="inline-block px-2 py-1 text-sm font-semibold text-indigo-600 bg-indigo-50 rounded-full">
+        {category}
+        {confidence !== undefined && (
+          <span className="ml-1 font-normal text-indigo-500">
+            {(confidence * 100).toFixed(0)}%
+          </span>
+        )}
+      </span>
+      {disagrees && (
+        <span
+          title={`The source filed this under ${sourceCategory}`}
+          className="inline-flex items-center gap-1 px-2 py-1 text-xs text-amber-700 bg-amber-50 rounded-full"
+        >
+          <AlertTriangle className="h-3 w-3" />
+          {sourceCategory}
+        </span>
+      )}
+    </span>
+  );
+};
+
+export default CategoryBadge;
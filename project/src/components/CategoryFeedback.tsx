@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Check, Flag } from 'lucide-react';
+import { useAuthStore } from '../store/authStore';
+import { useTaxonomyStore } from '../store/taxonomyStore';
+import { getCategoryNames } from '../lib/taxonomy';
+import { submitClassificationFeedback } from '../lib/feedbackApi';
+
+interface CategoryFeedbackProps {
+  text: string;
+  predictedCategory: string;
+  articleUrl?: string;
+}
+
+// "Wrong category?" control that records the user's correction
+const CategoryFeedback: React.FC<CategoryFeedbackProps> = ({ text, predictedCategory, articleUrl }) => {
+  const user = useAuthStore((state) => state.user);
+  const taxonomy = useTaxonomyStore((state) => state.taxonomy);
+  const [isOpen, setIsOpen] = useState(false);
+  const [correctedCategory, setCorrectedCategory] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const options = getCategoryNames(taxonomy).filter(category => category !== predictedCategory);
+
+  const handleSubmit = async () => {
+    if (!user || !correctedCategory) return;
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await submitClassificationFeedback(user.id, {
+        text,
+        predictedCategory,
+        correctedCategory,
+        articleUrl
+      });
+      setIsSubmitted(true);
+      setIsOpen(false);
+    } catch (err) {
+      const error = err as Error;
+      setError(`Failed to send feedback: ${error.message}`);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isSubmitted) {
+    return (
+      <span className="inline-flex items-center gap-1 text-sm text-green-700">
+        <Check className="h-4 w-4" />
+        Thanks, marked as {correctedCategory}
+      </span>
+    );
+  }
+
+  // Article cards open the article on click, so keep clicks inside this control
+  return (
+    <span className="inline-flex flex-wrap items-center gap-2 text-sm" onClick={(e) => e.stopPropagation()}>
+      {isOpen ? (
+        <>
+          <select
+            value={correctedCategory}
+            onChange={(e) => setCorrectedCategory(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-lg"
+            aria-label="Correct category"
+          >
+            <option value="">Correct category…</option>
+            {options.map(category => (
+              <option key={category} value={category}>{category}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleSubmit}
+            disabled={!correctedCategory || isSubmitting}
+            className="px-2 py-1 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-gray-400"
+          >
+            {isSubmitting ? 'Sending…' : 'Send'}
+          </button>
+          <button
+            onClick={() => setIsOpen(false)}
+            className="text-gray-500 hover:text-gray-700"
+          >
+            Cancel
+          </button>
+        </>
+      ) : (
+        <button
+          onClick={() => setIsOpen(true)}
+          className="inline-flex items-center gap-1 text-gray-500 hover:text-indigo-600"
+        >
+          <Flag className="h-4 w-4" />
+          Wrong category?
+        </button>
+      )}
+      {error && <span className="text-red-600">{error}</span>}
+    </span>
+  );
+};
+
+export default CategoryFeedback;
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+
+interface CategoryPickerProps {
+  categories: string[];
+  selected: string[];
+  colors: Record<string, string>;
+  onToggle: (category: string) => void;
+  // Categories that cannot be picked here, e.g. ones muted elsewhere on the page
+  disabled?: string[];
+}
+
+// Toggleable category chips, filled with the category's color when picked
+const CategoryPicker: React.FC<CategoryPickerProps> = ({ categories, selected, colors, onToggle, disabled = [] }) => (
+  <div className="flex flex-wrap gap-2">
+    {categories.map(category => {
+      const isSelected = selected.includes(category);
+      const color = colors[category] ?? '#4f46e5';
+      return (
+        <button
+          key={category}
+          type="button"
+          onClick={() => onToggle(category)}
+          disabled={disabled.includes(category)}
+          aria-pressed={isSelected}
+          className="flex items-center gap-1 px-3 py-2 rounded-full border-2 text-sm font-medium transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+          style={isSelected
+            ? { backgroundColor: color, borderColor: color, color: '#ffffff' }
+            : { borderColor: color, color }}
+        >
+          {isSelected && <Check className="h-4 w-4" />}
+          {category}
+        </button>
+      );
+    })}
+  </div>
+);
+
+export default CategoryPicker;
@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import type { CategoryExplanation, ScoreSource } from '../lib/newsClassifier';
+
+interface ClassificationExplanationProps {
+  text: string;
+  explanations: CategoryExplanation[];
+  colors: Record<string, string>;
+  // The scorer that decided; the model's decision is not keyword-based
+  source: ScoreSource;
+}
+
+const FALLBACK_COLOR = '#9ca3af';
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const ClassificationExplanation: React.FC<ClassificationExplanationProps> = ({ text, explanations, colors, source }) => {
+  // Each term is credited to the category it contributed most to
+  const termCategories = useMemo(() => {
+    const best = new Map<string, { category: string; weight: number }>();
+    explanations.forEach(({ category, terms }) => {
+      terms.forEach(({ term, weight }) => {
+        const current = best.get(term);
+        if (weight > 0 && (!current || weight > current.weight)) {
+          best.set(term, { category, weight });
+        }
+      });
+    });
+    return best;
+  }, [explanations]);
+
+  // Highlight whole words and phrases only, so "ai" does not light up inside
+  // "said"; longer terms are tried first so phrases win over their words
+  const segments = useMemo(() => {
+    const terms = Array.from(termCategories.keys()).sort((a, b) => b.length - a.length);
+    if (terms.length === 0) return [{ text, category: null as string | null }];
+
+    const pattern = new RegExp(`\\b(${terms.map(escapeRegExp).join('|')})\\b`, 'gi');
+    return text.split(pattern)
+      .filter(part => part)
+      .map(part => ({
+        text: part,
+        category: termCategories.get(part.toLowerCase())?.category ?? null
+      }));
+  }, [text, termCategories]);
+
+  if (explanations.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        No keywords matched, so no category had supporting evidence.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {source === 'model' && (
+        <p className="text-sm text-gray-500">
+          The trained model chose this category, and it cannot be explained word by word. These are the
+          keywords that support each category, which did not decide the result.
+        </p>
+      )}
+      <p className="p-4 bg-gray-50 rounded-lg text-gray-800 whitespace-pre-wrap leading-relaxed">
+        {segments.map((segment, index) =>
+          segment.category ? (
+            <mark
+              key={index}
+              title={segment.category}
+              className="rounded px-0.5 text-white"
+              style={{ backgroundColor: colors[segment.category] ?? FALLBACK_COLOR }}
+            >
+              {segment.text}
+            </mark>
+          ) : (
+            <React.Fragment key={index}>{segment.text}</React.Fragment>
+          )
+        )}
+      </p>
+
+      <div className="space-y-2">
+        {explanations.map(({ category, terms }) => (
+          <div key={category} className="flex flex-wrap items-center gap-2 text-sm">
+            <span
+              className="font-semibold"
+              style={{ color: colors[category] ?? FALLBACK_COLOR }}
+            >
+              {category}:
+            </span>
+            {terms.map(({ term, weight, tier }) => (
+              <span
+                key={`${tier}-${term}`}
+                title={`${tier} keyword`}
+                className="px-2 py-0.5 bg-gray-100 text-gray-700 rounded-full"
+              >
+                {term}{' '}
+                <span className="text-gray-500">
+                  {weight >= 0 ? '+' : ''}{weight.toFixed(2)}
+                </span>
+              </span>
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ClassificationExplanation;
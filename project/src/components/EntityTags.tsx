@@ -0,0 +1,44 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Building2, MapPin, User } from 'lucide-react';
+import { Entity, EntityType, entityPath } from '../lib/entityExtraction';
+
+interface EntityTagsProps {
+  entities: Entity[];
+  // Show at most this many, most mentioned first
+  limit?: number;
+}
+
+const ENTITY_ICONS: Record<EntityType, React.ComponentType<{ className?: string }>> = {
+  person: User,
+  organization: Building2,
+  place: MapPin
+};
+
+// Links to the entity pages of the people, organizations and places an article names
+const EntityTags: React.FC<EntityTagsProps> = ({ entities, limit = 4 }) => {
+  if (entities.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {entities.slice(0, limit).map(entity => {
+        const Icon = ENTITY_ICONS[entity.type];
+        return (
+          <Link
+            key={entity.name}
+            to={entityPath(entity.name)}
+            // Cards open the article on click
+            onClick={(e) => e.stopPropagation()}
+            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700 hover:bg-gray-200"
+            title={`${entity.type}, mentioned ${entity.mentions} time${entity.mentions === 1 ? '' : 's'}`}
+          >
+            <Icon className="h-3 w-3" />
+            {entity.name}
+          </Link>
+        );
+      })}
+    </div>
+  );
+};
+
+export default EntityTags;
@@ -0,0 +1,136 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Clock, LogIn, RefreshCw, WifiOff } from 'lucide-react';
+import { describeNewsError, NewsError } from '../lib/newsErrors';
+
+interface NewsErrorNoticeProps {
+  error: NewsError;
+  onRetry: () => void;
+  onSignIn: () => void;
+  // Drop the filters that need a paid plan and search top headlines
+  onBrowseHeadlines: () => void;
+}
+
+// Wait this long when a rate limit came without a Retry-After header
+const DEFAULT_RETRY_AFTER_SECONDS = 30;
+
+const formatCountdown = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = seconds % 60;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}:${String(rest).padStart(2, '0')}`;
+};
+
+const secondsUntil = (time: number) => Math.max(0, Math.ceil((time - Date.now()) / 1000));
+
+// Seconds left until `error` may be retried, ticking down once a second and
+// starting over for each new error
+const useRetryCountdown = (error: NewsError) => {
+  const retryAt = useMemo(() => error.kind === 'RateLimited'
+    ? Date.now() + (error.retryAfterSeconds ?? DEFAULT_RETRY_AFTER_SECONDS) * 1000
+    : 0, [error]);
+  const [secondsLeft, setSecondsLeft] = useState(() => secondsUntil(retryAt));
+
+  useEffect(() => {
+    setSecondsLeft(secondsUntil(retryAt));
+    const timer = setInterval(() => {
+      const left = secondsUntil(retryAt);
+      setSecondsLeft(left);
+      if (left === 0) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  return secondsLeft;
+};
+
+const buttonClassName = 'flex items-center gap-1 px-3 py-1 rounded-lg text-sm bg-red-100 text-red-800 hover:bg-red-200 disabled:opacity-50 disabled:cursor-not-allowed';
+
+// Explains a failed news fetch and offers the way out that fits its kind
+const NewsErrorNotice: React.FC<NewsErrorNoticeProps> = ({ error, onRetry, onSignIn, onBrowseHeadlines }) => {
+  const secondsLeft = useRetryCountdown(error);
+  const autoRetry = error.kind === 'RateLimited' && !error.quotaExceeded;
+
+  // A short rate limit clears by itself, so try again as soon as it does
+  useEffect(() => {
+    if (autoRetry && secondsLeft === 0) onRetry();
+  }, [autoRetry, secondsLeft, onRetry]);
+
+  // Retry once the browser is back online
+  useEffect(() => {
+    if (error.kind !== 'Network') return;
+    window.addEventListener('online', onRetry);
+    return () => window.removeEventListener('online', onRetry);
+  }, [error.kind, onRetry]);
+
+  const retryButton = (
+    <button onClick={onRetry} disabled={secondsLeft > 0} className={buttonClassName}>
+      <RefreshCw className="h-4 w-4" />
+      Try again
+    </button>
+  );
+
+  const renderAction = () => {
+    switch (error.kind) {
+      case 'RateLimited':
+        return (
+          <>
+            <span className="flex items-center gap-1 text-sm">
+              <Clock className="h-4 w-4" />
+              {secondsLeft > 0
+                ? `${error.quotaExceeded ? 'Your limit resets' : 'Retrying'} in ${formatCountdown(secondsLeft)}`
+                : 'You can try again now'}
+            </span>
+            {error.quotaExceeded && retryButton}
+          </>
+        );
+      case 'Unauthorized':
+        return error.reason === 'session' ? (
+          <button onClick={onSignIn} className={buttonClassName}>
+            <LogIn className="h-4 w-4" />
+            Sign in again
+          </button>
+        ) : (
+          <>
+            <span className="text-sm">Ask whoever runs the news proxy to check its NEWS_API_KEY.</span>
+            {retryButton}
+          </>
+        );
+      case 'PlanRequired':
+        return (
+          <button onClick={onBrowseHeadlines} className={buttonClassName}>
+            Search top headlines instead
+          </button>
+        );
+      case 'Network':
+        return (
+          <>
+            <span className="flex items-center gap-1 text-sm">
+              <WifiOff className="h-4 w-4" />
+              We'll retry when you're back online
+            </span>
+            {retryButton}
+          </>
+        );
+      case 'Timeout':
+      case 'ProxyFailure':
+      case 'InvalidPayload':
+        return retryButton;
+    }
+  };
+
+  return (
+    <div className="bg-red-50 text-red-700 p-4 rounded-lg space-y-3">
+      <div className="flex items-start gap-2">
+        <AlertTriangle className="h-5 w-5 shrink-0" />
+        <p>{describeNewsError(error)}</p>
+      </div>
+      <div className="flex flex-wrap items-center gap-3">{renderAction()}</div>
+      <p className="text-xs text-red-500">
+        {error.proxy} · attempt {error.attempt}
+      </p>
+    </div>
+  );
+};
+
+export default NewsErrorNotice;
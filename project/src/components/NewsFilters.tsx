@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { Search, SlidersHorizontal, X } from 'lucide-react';
+import { NewsQuery, NewsSortOrder, NewsSource } from '../lib/newsSources';
+import { NEWS_API_COUNTRIES, NEWS_API_LANGUAGES } from '../lib/newsApi';
+
+interface NewsFiltersProps {
+  query: NewsQuery;
+  categories: string[];
+  sources: NewsSource[];
+  selectedSource: string;
+  onSearch: (query: NewsQuery, sourceId: string) => void;
+}
+
+const SORT_LABELS: Record<NewsSortOrder, string> = {
+  publishedAt: 'Newest first',
+  relevancy: 'Most relevant',
+  popularity: 'Most popular'
+};
+
+const inputClassName = 'px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+// Edits a draft of the query; nothing is fetched until the search is applied.
+// Remount with a new key when the applied query changes to reset the draft.
+const NewsFilters: React.FC<NewsFiltersProps> = ({ query, categories, sources, selectedSource, onSearch }) => {
+  const [draft, setDraft] = useState<NewsQuery>(query);
+  const [sourceId, setSourceId] = useState(selectedSource);
+  const [showFilters, setShowFilters] = useState(
+    !!(query.from || query.to || query.sources || query.language || query.country || query.sortBy)
+  );
+
+  const hasFilters = Object.values(query).some(value => value) || !!selectedSource;
+
+  const updateDraft = (changes: Partial<NewsQuery>) => {
+    setDraft(current => ({ ...current, ...changes }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSearch(draft, sourceId);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="flex gap-4">
+        <div className="flex-1 relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
+          <input
+            type="text"
+            placeholder="Search news by keyword..."
+            value={draft.q ?? ''}
+            onChange={(e) => updateDraft({ q: e.target.value })}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+        </div>
+        <button
+          type="button"
+          onClick={() => setShowFilters(!showFilters)}
+          className={`px-3 py-2 rounded-lg ${showFilters ? 'bg-indigo-100 text-indigo-700' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+          aria-label="Toggle filters"
+        >
+          <SlidersHorizontal className="h-5 w-5" />
+        </button>
+        <button
+          type="submit"
+          className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
+        >
+          Search
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="grid grid-cols-2 gap-3 p-4 bg-white rounded-lg shadow-sm">
+          <label className="flex flex-col gap-1 text-sm text-gray-600">
+            From
+            <input
+              type="date"
+              value={draft.from ?? ''}
+              onChange={(e) => updateDraft({ from: e.target.value })}
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-600">
+            To
+            <input
+              type="date"
+              value={draft.to ?? ''}
+              onChange={(e) => updateDraft({ to: e.target.value })}
+              className={inputClassName}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-600">
+            Language
+            <select
+              value={draft.language ?? ''}
+              onChange={(e) => updateDraft({ language: e.target.value })}
+              className={inputClassName}
+            >
+              <option value="">Any language</option>
+              {Object.entries(NEWS_API_LANGUAGES).map(([code, name]) => (
+                <option key={code} value={code}>{name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-600">
+            Country
+            <select
+              value={draft.country ?? ''}
+              onChange={(e) => updateDraft({ country: e.target.value })}
+              className={inputClassName}
+            >
+              <option value="">Default (United States)</option>
+              {Object.entries(NEWS_API_COUNTRIES).map(([code, name]) => (
+                <option key={code} value={code}>{name}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-600">
+            Sort by
+            <select
+              value={draft.sortBy ?? ''}
+              onChange={(e) => updateDraft({ sortBy: (e.target.value || undefined) as NewsSortOrder | undefined })}
+              className={inputClassName}
+            >
+              <option value="">Top headlines</option>
+              {Object.entries(SORT_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-sm text-gray-600">
+            Outlets
+            <input
+              type="text"
+              placeholder="e.g. bbc-news,reuters"
+              value={draft.sources ?? ''}
+              onChange={(e) => updateDraft({ sources: e.target.value })}
+              className={inputClassName}
+            />
+          </label>
+          {sources.length > 1 && (
+            <label className="col-span-2 flex flex-col gap-1 text-sm text-gray-600">
+              Feed
+              <select
+                value={sourceId}
+                onChange={(e) => setSourceId(e.target.value)}
+                className={inputClassName}
+              >
+                <option value="">All sources</option>
+                {sources.map(source => (
+                  <option key={source.id} value={source.id}>{source.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <p className="col-span-2 text-xs text-gray-500">
+            Dates, language and sort order search all articles rather than top headlines,
+            so they need keywords, a category or outlets.
+          </p>
+        </div>
+      )}
+
+      <div className="flex gap-2 flex-wrap items-center">
+        {categories.map((category) => {
+          const isActive = query.category === category;
+          return (
+            <button
+              key={category}
+              type="button"
+              onClick={() => onSearch({ ...draft, category: isActive ? undefined : category }, sourceId)}
+              className={`px-3 py-1 rounded-full ${
+                isActive
+                  ? 'bg-indigo-600 text-white'
+                  : 'bg-indigo-100 text-indigo-700 hover:bg-indigo-200'
+              }`}
+            >
+              {category}
+            </button>
+          );
+        })}
+        {hasFilters && (
+          <button
+            type="button"
+            onClick={() => onSearch({}, '')}
+            className="flex items-center gap-1 px-3 py-1 text-sm text-gray-600 hover:text-gray-900"
+          >
+            <X className="h-4 w-4" />
+            Clear filters
+          </button>
+        )}
+      </div>
+    </form>
+  );
+};
+
+export default NewsFilters;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronUp, Star } from 'lucide-react';
+import { NewsArticle } from '../lib/newsSources';
+import { PLACEHOLDER_IMAGE_URL } from '../lib/newsApi';
+import CategoryBadge from './CategoryBadge';
+import CategoryFeedback from './CategoryFeedback';
+import EntityTags from './EntityTags';
+
+interface StoryCardProps {
+  // Every outlet's version of the story, the one to show first
+  articles: NewsArticle[];
+  preferredOutlets: string[];
+  onOpen: (article: NewsArticle) => void;
+  onPreferOutlet: (outlet: string) => void;
+  onRemovePreferredOutlet: (outlet: string) => void;
+}
+
+// A story card for the lead article, with the other outlets covering the same
+// story tucked behind an "N sources" toggle
+const StoryCard: React.FC<StoryCardProps> = ({
+  articles,
+  preferredOutlets,
+  onOpen,
+  onPreferOutlet,
+  onRemovePreferredOutlet
+}) => {
+  const [showSources, setShowSources] = useState(false);
+  const [lead, ...others] = articles;
+
+  return (
+    <article
+      className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow cursor-pointer"
+      onClick={() => onOpen(lead)}
+    >
+      <img
+        src={lead.urlToImage}
+        alt={lead.title}
+        className="w-full h-48 object-cover"
+        onError={(e) => {
+          e.currentTarget.src = PLACEHOLDER_IMAGE_URL;
+        }}
+      />
+      <div className="p-4">
+        <div className="flex justify-between items-start mb-2">
+          <CategoryBadge
+            category={lead.category}
+            confidence={lead.confidence}
+            sourceCategory={lead.sourceCategory}
+          />
+          <span className="text-sm text-gray-500">{lead.source}</span>
+        </div>
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">{lead.title}</h2>
+        <p className="text-gray-600 mb-4">{lead.description}</p>
+        <div className="mb-4">
+          <EntityTags entities={lead.entities} />
+        </div>
+        <div className="flex justify-between items-center">
+          <span className="text-sm text-gray-500">
+            {new Date(lead.publishedAt).toLocaleDateString()}
+          </span>
+          <span className="text-indigo-600 hover:text-indigo-800">Read more →</span>
+        </div>
+        <div className="mt-3">
+          <CategoryFeedback
+            text={`${lead.title} ${lead.description} ${lead.content}`}
+            predictedCategory={lead.category}
+            articleUrl={lead.url}
+          />
+        </div>
+
+        {others.length > 0 && (
+          <div className="mt-3 border-t border-gray-100 pt-3" onClick={(e) => e.stopPropagation()}>
+            <button
+              onClick={() => setShowSources(!showSources)}
+              className="flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900"
+            >
+              {showSources ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+              {articles.length} sources
+            </button>
+            {showSources && (
+              <ul className="mt-2 space-y-2">
+                {others.map(article => (
+                  <li key={article.url} className="flex items-start justify-between gap-3 text-sm">
+                    <button
+                      onClick={() => onOpen(article)}
+                      className="text-left text-gray-700 hover:text-indigo-700"
+                    >
+                      <span className="font-medium">{article.source}</span>
+                      <span className="text-gray-500"> · {article.title}</span>
+                    </button>
+                    <button
+                      onClick={() => onPreferOutlet(article.source)}
+                      className="flex shrink-0 items-center gap-1 text-xs text-gray-500 hover:text-indigo-700"
+                      title={`Show ${article.source} first when it covers a story`}
+                    >
+                      <Star className="h-3 w-3" />
+                      Prefer
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            {preferredOutlets.includes(lead.source) && (
+              <p className="mt-2 flex items-center gap-1 text-xs text-gray-500">
+                <Star className="h-3 w-3 fill-current text-amber-500" />
+                Showing {lead.source} first because you prefer it
+                <button
+                  onClick={() => onRemovePreferredOutlet(lead.source)}
+                  className="ml-1 text-indigo-600 hover:text-indigo-800"
+                >
+                  Undo
+                </button>
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </article>
+  );
+};
+
+export default StoryCard;
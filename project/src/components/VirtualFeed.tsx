@@ -0,0 +1,90 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { useWindowVirtualizer } from '@tanstack/react-virtual';
+
+interface VirtualFeedProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T) => React.ReactNode;
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
+  // Rough item height in px until an item has been measured
+  estimateSize?: number;
+}
+
+const GAP = 24;
+// Start loading the next page this many items before the end
+const LOAD_AHEAD = 3;
+
+// Window-scrolled list that only mounts the items near the viewport and asks
+// for more as the user approaches the end. Items may have any height.
+const VirtualFeed = <T,>({
+  items,
+  getKey,
+  renderItem,
+  hasMore,
+  isLoadingMore,
+  onLoadMore,
+  estimateSize = 420
+}: VirtualFeedProps<T>) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const [scrollMargin, setScrollMargin] = useState(0);
+
+  // Content above the list (filters, notices) moves it, so re-measure whenever the page resizes
+  useLayoutEffect(() => {
+    const measure = () => {
+      setScrollMargin((listRef.current?.getBoundingClientRect().top ?? 0) + window.scrollY);
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, []);
+
+  const virtualizer = useWindowVirtualizer({
+    count: items.length,
+    estimateSize: () => estimateSize,
+    getItemKey: (index) => getKey(items[index]),
+    overscan: 4,
+    gap: GAP,
+    scrollMargin
+  });
+
+  const virtualItems = virtualizer.getVirtualItems();
+  const lastIndex = virtualItems[virtualItems.length - 1]?.index ?? -1;
+
+  useEffect(() => {
+    if (hasMore && !isLoadingMore && lastIndex >= items.length - LOAD_AHEAD) {
+      onLoadMore();
+    }
+  }, [lastIndex, items.length, hasMore, isLoadingMore, onLoadMore]);
+
+  return (
+    <div ref={listRef}>
+      <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+        {virtualItems.map((virtualItem) => (
+          <div
+            key={virtualItem.key}
+            data-index={virtualItem.index}
+            ref={virtualizer.measureElement}
+            className="absolute top-0 left-0 w-full"
+            style={{ transform: `translateY(${virtualItem.start - scrollMargin}px)` }}
+          >
+            {renderItem(items[virtualItem.index])}
+          </div>
+        ))}
+      </div>
+
+      {isLoadingMore && (
+        <div className="flex justify-center items-center py-6">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+        </div>
+      )}
+      {!hasMore && !isLoadingMore && items.length > 0 && (
+        <p className="py-6 text-center text-sm text-gray-500">You've reached the end of the feed.</p>
+      )}
+    </div>
+  );
+};
+
+export default VirtualFeed;
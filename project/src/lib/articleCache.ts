@@ -0,0 +1,82 @@
+import type { SourceArticle } from './newsSources';
+
+const DB_NAME = 'news-classifier';
+const DB_VERSION = 1;
+const STORE = 'articles';
+
+export interface CachedArticles {
+  key: string;
+  articles: SourceArticle[];
+  // Whether the source had another page after this one
+  hasMore?: boolean;
+  // Epoch milliseconds of the fetch that produced the articles
+  fetchedAt: number;
+}
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  database ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  return database;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// The cache is an optimization: without IndexedDB (private windows, tests)
+// reads miss and writes are dropped
+const isAvailable = () => typeof indexedDB !== 'undefined';
+
+export const readCachedArticles = async (key: string): Promise<CachedArticles | null> => {
+  if (!isAvailable()) return null;
+  try {
+    const entry = await runRequest<CachedArticles | undefined>('readonly', store => store.get(key));
+    return entry ?? null;
+  } catch (error) {
+    console.error('Failed to read article cache:', error);
+    return null;
+  }
+};
+
+export const writeCachedArticles = async (
+  key: string,
+  articles: SourceArticle[],
+  hasMore: boolean
+): Promise<void> => {
+  if (!isAvailable()) return;
+  try {
+    await runRequest('readwrite', store => store.put({ key, articles, hasMore, fetchedAt: Date.now() }));
+  } catch (error) {
+    console.error('Failed to write article cache:', error);
+  }
+};
+
+// Drop entries too old to be served even as a fallback
+export const pruneArticleCache = async (maxAgeMs: number): Promise<void> => {
+  if (!isAvailable()) return;
+  try {
+    const entries = await runRequest<CachedArticles[]>('readonly', store => store.getAll());
+    const cutoff = Date.now() - maxAgeMs;
+    await Promise.all(entries
+      .filter(entry => entry.fetchedAt < cutoff)
+      .map(entry => runRequest('readwrite', store => store.delete(entry.key))));
+  } catch (error) {
+    console.error('Failed to prune article cache:', error);
+  }
+};
@@ -0,0 +1,127 @@
+import axios from 'axios';
+import { supabase } from './supabase';
+import type { SourceArticle } from './articleSchema';
+
+// Our extract-article edge function; set VITE_ARTICLE_EXTRACT_URL to use the
+// local stand-in (npm run extract-article) instead, or to "off" to disable
+const ARTICLE_EXTRACT_URL = import.meta.env.VITE_ARTICLE_EXTRACT_URL ||
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/extract-article`;
+
+// Article pages are fetched by the service, so a few at a time is plenty
+const CONCURRENCY = 4;
+
+// Failures worth retrying wait this long, doubling up to RETRY_MAX_MS
+const RETRY_BASE_MS = 30_000;
+const RETRY_MAX_MS = 10 * 60_000;
+
+interface ExtractedArticle {
+  url: string;
+  title: string;
+  text: string;
+  wordCount: number;
+}
+
+interface Extraction {
+  text: string | null;
+  // The failure may pass (a 5xx, timeout or network error), so the page is
+  // not cached and is tried again after a backoff
+  retryable: boolean;
+}
+
+interface Backoff {
+  failures: number;
+  retryAt: number;
+}
+
+// Extracted text per article URL, shared by every feed in the session. Pages
+// still being extracted are kept too, so concurrent feeds share the request.
+// Pages the service rejected for good (no article text, not HTML, too large)
+// are kept as null, so they do not use up the daily quota again.
+const extracted = new Map<string, Promise<string | null>>();
+// Pages whose last attempt failed with a server error
+const pageBackoff = new Map<string, Backoff>();
+// Set while the service cannot be reached at all
+let serviceBackoff: Backoff | null = null;
+let isAvailable = ARTICLE_EXTRACT_URL !== 'off';
+
+const nextBackoff = (previous: Backoff | null | undefined): Backoff => {
+  const failures = (previous?.failures ?? 0) + 1;
+  return { failures, retryAt: Date.now() + Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (failures - 1)) };
+};
+
+const isBackingOff = (url: string) => {
+  const now = Date.now();
+  return (serviceBackoff !== null && now < serviceBackoff.retryAt) ||
+    now < (pageBackoff.get(url)?.retryAt ?? 0);
+};
+
+const extractText = async (url: string): Promise<Extraction> => {
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    const response = await axios.get<ExtractedArticle>(ARTICLE_EXTRACT_URL, {
+      params: { url },
+      timeout: 20000,
+      headers: session ? { Authorization: `Bearer ${session.access_token}` } : {}
+    });
+    serviceBackoff = null;
+    pageBackoff.delete(url);
+    return { text: response.data.text || null, retryable: false };
+  } catch (error) {
+    if (!axios.isAxiosError(error) || !error.response) {
+      // A timeout or network error says nothing about the page. Requests
+      // already in flight when it started do not lengthen the wait.
+      if (!serviceBackoff || Date.now() >= serviceBackoff.retryAt) serviceBackoff = nextBackoff(serviceBackoff);
+      return { text: null, retryable: true };
+    }
+
+    const { status } = error.response;
+    serviceBackoff = null;
+    if (status === 404 || status === 429) {
+      // Without the service, or once today's quota is used up, every article
+      // would fail the same way; stop asking
+      isAvailable = false;
+      return { text: null, retryable: true };
+    }
+    if (status >= 500) {
+      pageBackoff.set(url, nextBackoff(pageBackoff.get(url)));
+      return { text: null, retryable: true };
+    }
+    return { text: null, retryable: false };
+  }
+};
+
+// The article's main text, or null when it could not be extracted
+export const fetchArticleText = (url: string): Promise<string | null> => {
+  if (!isAvailable) return Promise.resolve(null);
+  const cached = extracted.get(url);
+  if (cached) return cached;
+  if (isBackingOff(url)) return Promise.resolve(null);
+
+  const pending = extractText(url).then(({ text, retryable }) => {
+    if (retryable) extracted.delete(url);
+    return text;
+  });
+  extracted.set(url, pending);
+  return pending;
+};
+
+// Fill in `fullText` for the articles whose page could be extracted. Articles
+// that already have it, or whose page failed, are returned unchanged.
+export const withFullText = async <T extends SourceArticle>(articles: T[], signal?: AbortSignal): Promise<T[]> => {
+  const results = [...articles];
+  let next = 0;
+
+  const work = async () => {
+    while (next < articles.length && !signal?.aborted) {
+      const index = next++;
+      const article = articles[index];
+      if (article.fullText) continue;
+      const fullText = await fetchArticleText(article.url);
+      if (fullText) results[index] = { ...article, fullText };
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, articles.length) }, work));
+  if (signal?.aborted) throw new DOMException('Full text extraction was cancelled', 'AbortError');
+  return results;
+};
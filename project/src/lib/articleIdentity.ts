@@ -0,0 +1,27 @@
+// Query parameters that track the click rather than identify the article
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'msclkid', 'mc_cid', 'mc_eid', 'ocid', 'cmpid', 'smid', 'ref', 'ref_src',
+  'src', 'at_medium', 'at_campaign', 'guccounter', 'taid', 'ito', 'cid', 'rss', 'feature'
+]);
+
+// The form of an article URL that every link to it shares: https, no "www.",
+// no fragment or tracking parameters, remaining parameters sorted, no trailing
+// slash. URLs that do not parse are only trimmed. An article's ID is the hex
+// SHA-256 of this form, computed by the record_article_read database function.
+export const normalizeArticleUrl = (url: string): string => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+
+  const params = Array.from(parsed.searchParams.entries())
+    .filter(([name]) => !/^utm_/i.test(name) && !TRACKING_PARAMS.has(name.toLowerCase()))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(params).toString();
+  const host = parsed.host.toLowerCase().replace(/^www\./, '');
+  const path = parsed.pathname.replace(/\/+$/, '') || '/';
+
+  return `https://${host}${path}${query ? `?${query}` : ''}`;
+};
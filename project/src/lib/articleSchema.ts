@@ -0,0 +1,119 @@
+import { z } from 'zod';
+
+// NewsAPI replaces taken-down articles with this placeholder instead of omitting them
+const REMOVED_MARKER = '[Removed]';
+
+const httpUrl = z.string().trim().url().refine(
+  value => /^https?:\/\//i.test(value),
+  'Expected an http or https URL'
+);
+
+// Any date Date.parse understands, normalized to ISO 8601
+const isoDate = z.string().trim()
+  .refine(value => !Number.isNaN(Date.parse(value)), 'Expected a date')
+  .transform(value => new Date(value).toISOString());
+
+// An article as every source normalizes it, before classification. Sources
+// check their items against it with parseArticles.
+export const sourceArticleSchema = z.object({
+  title: z.string().trim().min(1),
+  description: z.string(),
+  content: z.string(),
+  urlToImage: z.string(),
+  // The category the source itself filed the article under, if any
+  sourceCategory: z.string().nullable(),
+  url: httpUrl,
+  source: z.string().min(1),
+  publishedAt: isoDate,
+  // The article's main text from its page, when it has been extracted
+  fullText: z.string().optional()
+});
+
+export type SourceArticle = z.infer<typeof sourceArticleSchema>;
+
+export const entitySchema = z.object({
+  name: z.string(),
+  type: z.enum(['person', 'organization', 'place']),
+  // How often the article mentions it
+  mentions: z.number().int().positive()
+});
+
+export type Entity = z.infer<typeof entitySchema>;
+export type EntityType = Entity['type'];
+
+export const newsArticleSchema = sourceArticleSchema.extend({
+  category: z.string(),
+  confidence: z.number(),
+  categories: z.array(z.string()),
+  // People, organizations and places the article names, most mentioned first
+  entities: z.array(entitySchema)
+});
+
+export type NewsArticle = z.infer<typeof newsArticleSchema>;
+
+// NewsAPI's envelope; the articles are checked one by one so a bad item only costs itself
+export const newsApiResponseSchema = z.object({
+  status: z.literal('ok'),
+  totalResults: z.number().int().nonnegative(),
+  articles: z.array(z.unknown())
+});
+
+// One NewsAPI article, checked and normalized. sourceCategory depends on the
+// request, so the caller adds it.
+export const newsApiArticleSchema = z.object({
+  source: z.object({
+    id: z.string().nullable().optional(),
+    name: z.string().trim().nullable().optional()
+  }).nullable().optional(),
+  title: z.string().trim().min(1).refine(title => title !== REMOVED_MARKER, 'Article was removed'),
+  description: z.string().trim().min(1),
+  content: z.string().nullable().optional(),
+  url: httpUrl,
+  urlToImage: httpUrl.nullable().optional().catch(null),
+  publishedAt: isoDate
+}).transform(article => ({
+  title: article.title,
+  description: article.description,
+  // NewsAPI truncates content and appends "[+1234 chars]"
+  content: (article.content ?? '').trim().replace(/\s*\[\+\d+ chars\]$/, ''),
+  urlToImage: article.urlToImage ?? null,
+  url: article.url,
+  source: article.source?.name || 'Unknown Source',
+  publishedAt: article.publishedAt
+}));
+
+// How many items were dropped for each reason, e.g. { "url: Invalid url": 2 }
+export type DroppedArticles = Record<string, number>;
+
+// The first problem zod found, e.g. "url: Invalid url"
+export const describeSchemaError = ({ issues: [issue] }: z.ZodError): string =>
+  issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+
+// Keep the items that match `schema`, counting why the others were dropped
+export const parseArticles = <Schema extends z.ZodTypeAny>(
+  items: unknown[],
+  schema: Schema
+): { articles: Array<z.output<Schema>>; dropped: DroppedArticles } => {
+  const articles: Array<z.output<Schema>> = [];
+  const dropped: DroppedArticles = {};
+
+  items.forEach(item => {
+    const result = schema.safeParse(item);
+    if (result.success) {
+      articles.push(result.data);
+      return;
+    }
+    const reason = describeSchemaError(result.error);
+    dropped[reason] = (dropped[reason] ?? 0) + 1;
+  });
+
+  return { articles, dropped };
+};
+
+export const mergeDroppedArticles = (...counts: Array<DroppedArticles | undefined>): DroppedArticles => {
+  const merged: DroppedArticles = {};
+  counts.forEach(count => Object.entries(count ?? {}).forEach(([reason, n]) => {
+    merged[reason] = (merged[reason] ?? 0) + n;
+  }));
+  return merged;
+};
@@ -0,0 +1,173 @@
+import type { ClassificationResult, ClassifierStatus, ClassifyOptions } from './newsClassifier';
+import type { ClassifierRequest, ClassifierResponse } from './classifierProtocol';
+import type { Taxonomy } from './taxonomy';
+import { Entity, extractEntities, setEntityTaxonomy } from './entityExtraction';
+
+export interface ClassifyBatchOptions {
+  options?: ClassifyOptions;
+  signal?: AbortSignal;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+export interface ClassifiedBatch {
+  results: ClassificationResult[];
+  // Each text's named entities, in the same order
+  entities: Entity[][];
+}
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  onProgress?: (completed: number, total: number) => void;
+}
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pending = new Map<string, PendingRequest>();
+// Sent again to a worker started after a crash, which has the built-in taxonomy
+let lastTaxonomy: Taxonomy | null = null;
+
+const abortError = () => new DOMException('Classification was cancelled', 'AbortError');
+
+// Without worker support, classify inline. The classifier (and TensorFlow.js)
+// is only loaded then, so it stays out of the main bundle.
+let inlineClassifier: Promise<typeof import('./newsClassifier')> | null = null;
+
+const loadInlineClassifier = () => {
+  inlineClassifier ??= import('./newsClassifier').then(async classifier => {
+    await classifier.loadClassifierModel();
+    return classifier;
+  });
+  return inlineClassifier;
+};
+
+const handleResponse = (event: MessageEvent<ClassifierResponse>) => {
+  const response = event.data;
+  const request = pending.get(response.requestId);
+  if (!request) return;
+
+  switch (response.type) {
+    case 'progress':
+      request.onProgress?.(response.completed, response.total);
+      return;
+    case 'result':
+      request.resolve({ results: response.results, entities: response.entities ?? [] } satisfies ClassifiedBatch);
+      break;
+    case 'configured':
+      request.resolve(response.status);
+      break;
+    case 'cancelled':
+      request.reject(abortError());
+      break;
+    case 'error':
+      request.reject(new Error(response.message));
+      break;
+  }
+  pending.delete(response.requestId);
+};
+
+// Lazily start the worker; null where workers are unavailable
+const getWorker = (): Worker | null => {
+  if (worker || typeof Worker === 'undefined') return worker;
+
+  worker = new Worker(new URL('../workers/classifier.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = handleResponse;
+  worker.onerror = (event) => {
+    console.error('Classifier worker failed:', event.message);
+    pending.forEach(request => request.reject(new Error('Classifier worker crashed')));
+    pending.clear();
+    worker?.terminate();
+    worker = null;
+  };
+  if (lastTaxonomy) {
+    // Nothing waits on the reply; later requests queue behind it in the worker
+    worker.postMessage({
+      type: 'configure',
+      requestId: `req-${nextRequestId++}`,
+      taxonomy: lastTaxonomy
+    } satisfies ClassifierRequest);
+  }
+  return worker;
+};
+
+const sendRequest = <T>(
+  request: ClassifierRequest,
+  onProgress?: PendingRequest['onProgress']
+): Promise<T> => {
+  return new Promise<T>((resolve, reject) => {
+    pending.set(request.requestId, {
+      resolve: resolve as (value: unknown) => void,
+      reject,
+      onProgress
+    });
+    getWorker()!.postMessage(request);
+  });
+};
+
+// Start the worker (and its model download) ahead of the first classification
+export const warmUpClassifier = (): void => {
+  getWorker();
+};
+
+// Keep the worker's taxonomy in sync with the one the app loaded, and report
+// whether the trained model still applies to it
+export const configureClassifier = async (taxonomy: Taxonomy): Promise<ClassifierStatus> => {
+  if (!getWorker()) {
+    const classifier = await loadInlineClassifier();
+    classifier.setTaxonomy(taxonomy);
+    setEntityTaxonomy(taxonomy);
+    return classifier.getClassifierStatus();
+  }
+
+  lastTaxonomy = taxonomy;
+  return sendRequest<ClassifierStatus>({ type: 'configure', requestId: `req-${nextRequestId++}`, taxonomy });
+};
+
+const runBatch = async (
+  texts: string[],
+  withEntities: boolean,
+  { options, signal, onProgress }: ClassifyBatchOptions
+): Promise<ClassifiedBatch> => {
+  if (signal?.aborted) throw abortError();
+  if (texts.length === 0) return { results: [], entities: [] };
+
+  if (!getWorker()) {
+    const { classifyNews } = await loadInlineClassifier();
+    const results = texts.map(text => classifyNews(text, options));
+    onProgress?.(results.length, texts.length);
+    return { results, entities: withEntities ? texts.map(extractEntities) : [] };
+  }
+
+  const requestId = `req-${nextRequestId++}`;
+  const cancel = () => getWorker()?.postMessage({ type: 'cancel', requestId } satisfies ClassifierRequest);
+  signal?.addEventListener('abort', cancel, { once: true });
+
+  try {
+    return await sendRequest<ClassifiedBatch>(
+      { type: 'classify', requestId, texts, options, withEntities },
+      onProgress
+    );
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+};
+
+// Classify texts off the main thread; rejects with an AbortError when cancelled
+export const classifyBatch = async (
+  texts: string[],
+  options: ClassifyBatchOptions = {}
+): Promise<ClassificationResult[]> => (await runBatch(texts, false, options)).results;
+
+// Classify texts and extract their named entities, both in the worker
+export const classifyWithEntities = (
+  texts: string[],
+  options: ClassifyBatchOptions = {}
+): Promise<ClassifiedBatch> => runBatch(texts, true, options);
+
+export const classifyText = async (
+  text: string,
+  options?: ClassifyBatchOptions
+): Promise<ClassificationResult> => {
+  const [result] = await classifyBatch([text], options);
+  return result;
+};
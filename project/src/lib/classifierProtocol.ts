@@ -0,0 +1,18 @@
+import type { ClassificationResult, ClassifierStatus, ClassifyOptions } from './newsClassifier';
+import type { Taxonomy } from './taxonomy';
+import type { Entity } from './entityExtraction';
+
+// Messages from the main thread to the classifier worker
+export type ClassifierRequest =
+  | { type: 'configure'; requestId: string; taxonomy: Taxonomy }
+  // withEntities also extracts each text's named entities
+  | { type: 'classify'; requestId: string; texts: string[]; options?: ClassifyOptions; withEntities?: boolean }
+  | { type: 'cancel'; requestId: string };
+
+// Messages from the classifier worker back to the main thread
+export type ClassifierResponse =
+  | { type: 'configured'; requestId: string; status: ClassifierStatus }
+  | { type: 'progress'; requestId: string; completed: number; total: number }
+  | { type: 'result'; requestId: string; results: ClassificationResult[]; entities?: Entity[][] }
+  | { type: 'cancelled'; requestId: string }
+  | { type: 'error'; requestId: string; message: string };
@@ -0,0 +1,109 @@
+export type DatasetRecord = Record<string, string>;
+
+export type DatasetFormat = 'csv' | 'jsonl';
+
+// Parse RFC 4180 style CSV (quoted fields, escaped quotes, embedded newlines)
+// into records keyed by the header row
+export const parseCsv = (content: string): DatasetRecord[] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const [header, ...body] = rows.filter(cells => cells.some(cell => cell.trim()));
+  if (!header) return [];
+
+  const columns = header.map(column => column.trim());
+  return body.map(cells =>
+    Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? '']))
+  );
+};
+
+// Parse one JSON object per line; non-string values are stringified
+export const parseJsonl = (content: string): DatasetRecord[] => {
+  return content
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+    .filter(({ line }) => line)
+    .map(({ line, number }) => {
+      let value: unknown;
+      try {
+        value = JSON.parse(line);
+      } catch {
+        throw new Error(`Invalid JSON on line ${number}`);
+      }
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error(`Expected an object on line ${number}`);
+      }
+      return Object.fromEntries(
+        Object.entries(value).map(([key, field]) => [
+          key,
+          typeof field === 'string' ? field : JSON.stringify(field)
+        ])
+      );
+    });
+};
+
+export const detectDatasetFormat = (fileName: string): DatasetFormat => {
+  return fileName.toLowerCase().endsWith('.csv') ? 'csv' : 'jsonl';
+};
+
+export const parseDataset = (content: string, format: DatasetFormat): DatasetRecord[] => {
+  return format === 'csv' ? parseCsv(content) : parseJsonl(content);
+};
+
+// Every column that appears in any record, in first-seen order
+export const datasetColumns = (records: DatasetRecord[]): string[] => {
+  const columns = new Set<string>();
+  records.forEach(record => Object.keys(record).forEach(column => columns.add(column)));
+  return Array.from(columns);
+};
+
+const escapeCsvField = (value: string) => {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const serializeCsv = (records: DatasetRecord[], columns = datasetColumns(records)): string => {
+  const lines = [
+    columns.map(escapeCsvField).join(','),
+    ...records.map(record => columns.map(column => escapeCsvField(record[column] ?? '')).join(','))
+  ];
+  return lines.join('\n') + '\n';
+};
+
+export const serializeJsonl = (records: object[]): string => {
+  return records.map(record => JSON.stringify(record)).join('\n') + '\n';
+};
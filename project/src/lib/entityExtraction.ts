@@ -0,0 +1,237 @@
+import { DEFAULT_TAXONOMY, Taxonomy } from './taxonomy';
+import type { Entity, EntityType } from './articleSchema';
+
+export type { Entity, EntityType } from './articleSchema';
+
+// Taxonomy keyword groups that list named things rather than topic words,
+// matched by group name so admins can add e.g. `teams` or `cities`
+const GROUP_TYPES: Array<[RegExp, EntityType]> = [
+  [/people|persons|players|politicians|leaders|athletes|artists/i, 'person'],
+  [/places|countries|cities|regions|states/i, 'place'],
+  [/companies|leagues|institutions|platforms|organi[sz]ations|teams|agencies|brands|parties/i, 'organization']
+];
+
+// Countries, regions and cities that make the news most; taxonomies can add more
+const PLACES = [
+  'afghanistan', 'africa', 'argentina', 'asia', 'australia', 'austria', 'beijing', 'belgium', 'berlin', 'brazil',
+  'brussels', 'california', 'canada', 'chicago', 'china', 'colombia', 'delhi', 'denmark', 'egypt', 'england',
+  'europe', 'finland', 'florida', 'france', 'gaza', 'germany', 'greece', 'hollywood', 'hong kong', 'india',
+  'indonesia', 'iran', 'iraq', 'ireland', 'israel', 'italy', 'japan', 'kenya', 'kyiv', 'latin america',
+  'london', 'los angeles', 'madrid', 'mexico', 'middle east', 'moscow', 'netherlands', 'new york', 'new zealand',
+  'nigeria', 'north korea', 'norway', 'pakistan', 'paris', 'philippines', 'poland', 'portugal', 'rome', 'russia',
+  'san francisco', 'saudi arabia', 'scotland', 'seoul', 'silicon valley', 'singapore', 'south africa',
+  'south korea', 'spain', 'sweden', 'switzerland', 'sydney', 'syria', 'taiwan', 'texas', 'tokyo', 'turkey',
+  'uk', 'ukraine', 'united kingdom', 'united states', 'us', 'usa', 'u.s.', 'u.k.', 'wales', 'wall street',
+  'washington'
+];
+
+// Last words that make a capitalized phrase an organization ("Bank of England")
+const ORGANIZATION_WORDS = new Set([
+  'agency', 'airlines', 'association', 'authority', 'bank', 'board', 'bureau', 'club', 'co', 'commission',
+  'committee', 'company', 'corp', 'corporation', 'council', 'court', 'department', 'fc', 'federation', 'fund',
+  'group', 'holdings', 'inc', 'institute', 'laboratory', 'league', 'ltd', 'ministry', 'motors', 'office',
+  'organization', 'party', 'plc', 'reserve', 'school', 'senate', 'service', 'systems', 'technologies',
+  'union', 'united', 'university'
+]);
+
+// Words before a name that say it is a person's
+const PERSON_TITLES = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sir', 'dame', 'president', 'senator', 'sen', 'rep', 'governor', 'gov',
+  'mayor', 'minister', 'chancellor', 'judge', 'justice', 'king', 'queen', 'prince', 'princess', 'pope',
+  'ceo', 'chief', 'chair', 'chairman', 'chairwoman', 'coach', 'manager', 'director', 'secretary',
+  'spokesperson', 'spokesman', 'spokeswoman'
+]);
+
+// Lowercase words allowed inside a capitalized phrase ("University of Oxford", "Erik ten Hag")
+const CONNECTORS = new Set(['of', 'the', 'for', 'de', 'da', 'di', 'van', 'von', 'der', 'den', 'ten', 'la', 'le', 'bin', 'al']);
+const NAME_PARTICLES = new Set(['de', 'da', 'di', 'van', 'von', 'der', 'den', 'ten', 'la', 'le', 'bin', 'al']);
+
+// Capitalized only because they start a sentence ("In Paris", "The Fed")
+const LEADING_WORDS = new Set([
+  'a', 'an', 'the', 'in', 'on', 'at', 'as', 'by', 'for', 'from', 'with', 'after', 'before', 'but', 'and', 'or',
+  'when', 'while', 'if', 'this', 'that', 'these', 'those', 'it', 'its', 'his', 'her', 'their', 'our', 'my'
+]);
+
+const ABBREVIATION = /^(?:[A-Z]\.)+$|^(?:Mr|Mrs|Ms|Dr|Prof|Sen|Rep|Gov|St|Inc|Corp|Ltd|Co|Jr|Sr)\.$/;
+
+// A token is a word (keeping inner apostrophes, dots, hyphens) or sentence punctuation
+const TOKEN_PATTERN = /[\p{L}\p{N}][\p{L}\p{N}'’&.-]*|[.!?;:,"“”()]/gu;
+
+type Gazetteer = Map<string, EntityType>;
+
+const buildGazetteer = (taxonomy: Taxonomy): Gazetteer => {
+  const gazetteer: Gazetteer = new Map(PLACES.map(place => [place, 'place']));
+  taxonomy.categories.forEach(category => {
+    Object.entries(category.keywords).forEach(([group, terms]) => {
+      const type = GROUP_TYPES.find(([pattern]) => pattern.test(group))?.[1];
+      if (!type) return;
+      terms
+        .map(term => term.toLowerCase().trim())
+        // Generic words such as "university" name nothing on their own
+        .filter(term => term && !ORGANIZATION_WORDS.has(term))
+        .forEach(term => gazetteer.set(term, type));
+    });
+  });
+  return gazetteer;
+};
+
+let gazetteer = buildGazetteer(DEFAULT_TAXONOMY);
+
+// Rebuild the gazetteer from a loaded taxonomy
+export const setEntityTaxonomy = (taxonomy: Taxonomy): void => {
+  gazetteer = buildGazetteer(taxonomy);
+};
+
+const isCapitalized = (word: string) => /^\p{Lu}/u.test(word);
+const normalize = (word: string) => word.toLowerCase().replace(/\.$/, '');
+
+interface Sentence {
+  words: string[];
+  // Headline-style text capitalizes every word, so only gazetteer matches count
+  isTitleCase: boolean;
+}
+
+const splitSentences = (text: string): Sentence[] => {
+  const sentences: string[][] = [[]];
+  (text.match(TOKEN_PATTERN) ?? []).forEach(token => {
+    if (/^[.!?;:]$/.test(token)) {
+      sentences.push([]);
+      return;
+    }
+    if (/^[,"“”()]$/.test(token)) {
+      // Commas and quotes end a phrase but not the sentence
+      sentences[sentences.length - 1].push('');
+      return;
+    }
+    const endsSentence = token.endsWith('.') && !ABBREVIATION.test(token);
+    sentences[sentences.length - 1].push(endsSentence ? token.slice(0, -1) : token);
+    if (endsSentence) sentences.push([]);
+  });
+
+  return sentences
+    .filter(words => words.some(Boolean))
+    .map(words => {
+      const real = words.filter(word => /^\p{L}/u.test(word));
+      const capitalized = real.filter(isCapitalized).length;
+      return { words, isTitleCase: real.length >= 4 && capitalized / real.length > 0.6 };
+    });
+};
+
+// Runs of capitalized words, allowing connectors between them
+const capitalizedPhrases = (words: string[]): Array<{ words: string[]; start: number }> => {
+  const phrases: Array<{ words: string[]; start: number }> = [];
+  let index = 0;
+  while (index < words.length) {
+    if (!words[index] || !isCapitalized(words[index])) {
+      index++;
+      continue;
+    }
+    const start = index;
+    let end = index + 1;
+    while (end < words.length) {
+      if (words[end] && isCapitalized(words[end])) {
+        end++;
+      } else if (CONNECTORS.has(words[end]) && words[end + 1] && isCapitalized(words[end + 1])) {
+        end += 2;
+      } else {
+        break;
+      }
+    }
+    phrases.push({ words: words.slice(start, end), start });
+    index = end;
+  }
+  return phrases;
+};
+
+// Gazetteer entries inside a phrase, longest first, without overlaps
+const gazetteerMatches = (words: string[]): Array<{ name: string; type: EntityType }> => {
+  const matches: Array<{ name: string; type: EntityType }> = [];
+  let index = 0;
+  while (index < words.length) {
+    let matched = false;
+    for (let length = Math.min(4, words.length - index); length > 0; length--) {
+      const name = words.slice(index, index + length).join(' ');
+      const type = gazetteer.get(normalize(name));
+      if (type) {
+        matches.push({ name, type });
+        index += length;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) index++;
+  }
+  return matches;
+};
+
+const isNameWord = (word: string) => /^\p{Lu}[\p{Ll}'’-]+$/u.test(word) || NAME_PARTICLES.has(word);
+
+const classifyPhrase = (
+  words: string[],
+  previousWord: string,
+  sentence: Sentence
+): Array<{ name: string; type: EntityType }> => {
+  let phrase = words;
+  while (phrase.length > 0 && LEADING_WORDS.has(phrase[0].toLowerCase())) phrase = phrase.slice(1);
+  if (phrase.length === 0) return [];
+
+  const name = phrase.join(' ');
+  const known = gazetteer.get(normalize(name));
+  if (known) return [{ name, type: known }];
+  if (sentence.isTitleCase) return gazetteerMatches(phrase);
+
+  // A title inside the phrase ("Fed Chair Jerome Powell") splits off the person after it
+  const titleIndex = phrase.reduce(
+    (last, word, index) => PERSON_TITLES.has(normalize(word)) ? index : last,
+    -1
+  );
+  if (titleIndex !== -1 || PERSON_TITLES.has(normalize(previousWord))) {
+    const person = phrase.slice(titleIndex + 1);
+    if (person.length > 0 && person.length <= 3 && person.every(isNameWord) && isCapitalized(person[0])) {
+      const before = phrase.slice(0, Math.max(titleIndex, 0));
+      return [...gazetteerMatches(before), { name: person.join(' '), type: 'person' }];
+    }
+  }
+
+  if (phrase.length > 1 &&
+    (ORGANIZATION_WORDS.has(normalize(phrase[0])) || ORGANIZATION_WORDS.has(normalize(phrase[phrase.length - 1])))) {
+    return [{ name, type: 'organization' }];
+  }
+
+  const parts = gazetteerMatches(phrase);
+  if (parts.length > 0) return parts;
+
+  if (phrase.length >= 2 && phrase.length <= 4 && phrase.every(isNameWord)) {
+    return [{ name, type: 'person' }];
+  }
+  return [];
+};
+
+// People, organizations and places named in `text`, most mentioned first.
+// Gazetteer entries from the taxonomy are recognized anywhere they are
+// capitalized; other capitalized phrases are typed by their last word
+// ("... Bank"), a title before them ("President ...") or, for two- and
+// three-word names, taken to be people.
+export const extractEntities = (text: string): Entity[] => {
+  const found = new Map<string, Entity>();
+
+  splitSentences(text).forEach(sentence => {
+    capitalizedPhrases(sentence.words).forEach(({ words, start }) => {
+      const previousWord = sentence.words[start - 1] ?? '';
+      classifyPhrase(words, previousWord, sentence).forEach(({ name, type }) => {
+        const key = name.toLowerCase();
+        const entity = found.get(key);
+        if (entity) {
+          entity.mentions++;
+        } else {
+          found.set(key, { name, type, mentions: 1 });
+        }
+      });
+    });
+  });
+
+  return Array.from(found.values()).sort((a, b) => b.mentions - a.mentions);
+};
+
+// Route of the page listing an entity's articles
+export const entityPath = (name: string): string => `/entity/${encodeURIComponent(name)}`;
@@ -0,0 +1,60 @@
+import { contentWords } from './textPreprocessing';
+
+export interface FeedbackCorrection {
+  text: string;
+  predictedCategory: string;
+  correctedCategory: string;
+}
+
+// Per-term logit adjustments learned from user corrections
+export interface FeedbackAdjustments {
+  generatedAt: string | null;
+  corrections: number;
+  terms: Record<string, Record<string, number>>;
+}
+
+export interface FeedbackLearningOptions {
+  learningRate?: number;
+  maxAdjustment?: number;
+  minSupport?: number;
+}
+
+// Each correction nudges its words toward the corrected category and away
+// from the wrongly predicted one. Terms seen in fewer than `minSupport`
+// corrections are dropped so a single odd article cannot skew the classifier.
+export const learnFeedbackAdjustments = (
+  corrections: FeedbackCorrection[],
+  { learningRate = 0.5, maxAdjustment = 2, minSupport = 2 }: FeedbackLearningOptions = {}
+): FeedbackAdjustments => {
+  const votes = new Map<string, Map<string, number>>();
+  const support = new Map<string, number>();
+
+  corrections.forEach(({ text, predictedCategory, correctedCategory }) => {
+    if (predictedCategory === correctedCategory) return;
+
+    new Set(contentWords(text)).forEach(word => {
+      const categories = votes.get(word) ?? new Map<string, number>();
+      categories.set(correctedCategory, (categories.get(correctedCategory) || 0) + 1);
+      categories.set(predictedCategory, (categories.get(predictedCategory) || 0) - 1);
+      votes.set(word, categories);
+      support.set(word, (support.get(word) || 0) + 1);
+    });
+  });
+
+  const terms: FeedbackAdjustments['terms'] = {};
+  votes.forEach((categories, word) => {
+    if ((support.get(word) || 0) < minSupport) return;
+
+    categories.forEach((count, category) => {
+      if (count === 0) return;
+      const adjustment = Math.max(-maxAdjustment, Math.min(maxAdjustment, count * learningRate));
+      terms[word] = { ...terms[word], [category]: Number(adjustment.toFixed(4)) };
+    });
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    corrections: corrections.length,
+    terms
+  };
+};
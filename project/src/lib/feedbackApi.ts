@@ -0,0 +1,39 @@
+import { supabase } from './supabase';
+
+export interface ClassificationFeedback {
+  id: string;
+  text: string;
+  predicted_category: string;
+  corrected_category: string;
+  article_url: string | null;
+  created_at: string;
+}
+
+export interface FeedbackSubmission {
+  text: string;
+  predictedCategory: string;
+  correctedCategory: string;
+  articleUrl?: string;
+}
+
+export const submitClassificationFeedback = async (userId: string, submission: FeedbackSubmission) => {
+  const { error } = await supabase.from('classification_feedback').insert({
+    user_id: userId,
+    text: submission.text,
+    predicted_category: submission.predictedCategory,
+    corrected_category: submission.correctedCategory,
+    article_url: submission.articleUrl ?? null
+  });
+  if (error) throw error;
+};
+
+export const fetchOwnFeedback = async (userId: string): Promise<ClassificationFeedback[]> => {
+  const { data, error } = await supabase
+    .from('classification_feedback')
+    .select('id, text, predicted_category, corrected_category, article_url, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
@@ -0,0 +1,176 @@
+import { z } from 'zod';
+import { supabase } from './supabase';
+import { normalizeArticleUrl } from './articleIdentity';
+import type { NewsArticle } from './articleSchema';
+import type { Read } from './readingAnalytics';
+
+// A history row with its article's URL flattened in. The rest of the
+// article's metadata is the user's own copy, from the feed they read it in.
+export interface HistoryEntry {
+  id: string;
+  article_id: string;
+  title: string;
+  description: string | null;
+  image_url: string | null;
+  // Normalized article URL; null for reads recorded before articles had one
+  url: string | null;
+  // Outlet name; null for reads recorded before it was stored
+  source: string | null;
+  category: string;
+  categories: string[] | null;
+  // The latest read; repeat reads update it and count up read_count
+  read_at: string;
+  first_read_at: string;
+  read_count: number;
+}
+
+export interface HistoryFilters {
+  // Matched against title and description, ignoring case
+  search?: string;
+  category?: string;
+  // Inclusive YYYY-MM-DD bounds on read_at
+  from?: string;
+  to?: string;
+}
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  // Entries matching the filters across every page
+  total: number;
+}
+
+const HISTORY_COLUMNS = 'id, article_id, title, description, image_url, source, category, categories, ' +
+  'read_at, first_read_at, read_count, articles(url)';
+
+// PostgREST returns at most this many rows per request
+const MAX_ROWS = 1000;
+
+// Escape ilike's wildcards in a search term, then quote it for a PostgREST or() filter
+const ilikePattern = (term: string) => {
+  const literal = term.replace(/[\\%_]/g, '\\$&');
+  return `"%${literal.replace(/[\\"]/g, '\\$&')}%"`;
+};
+
+const nextDay = (date: string) => {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() + 1);
+  return day.toISOString();
+};
+
+// Rows as HISTORY_COLUMNS selects them, with the article's URL flattened in
+const historyRowSchema = z.object({
+  id: z.string(),
+  article_id: z.string(),
+  title: z.string(),
+  description: z.string().nullable(),
+  image_url: z.string().nullable(),
+  source: z.string().nullable(),
+  category: z.string(),
+  categories: z.array(z.string()).nullable(),
+  read_at: z.string(),
+  first_read_at: z.string(),
+  read_count: z.number(),
+  articles: z.object({ url: z.string().nullable() })
+}).transform(({ articles, ...row }): HistoryEntry => ({ ...row, url: articles.url }));
+
+const readEventRowSchema = z.object({
+  read_at: z.string(),
+  user_history: z.object({
+    category: z.string(),
+    source: z.string().nullable()
+  })
+}).transform(({ read_at, user_history }): Read => ({ read_at, ...user_history }));
+
+// One page of the user's history, newest first
+export const fetchHistoryPage = async (
+  userId: string,
+  filters: HistoryFilters,
+  page: number,
+  pageSize: number
+): Promise<HistoryPage> => {
+  let query = supabase
+    .from('user_history')
+    .select(HISTORY_COLUMNS, { count: 'exact' })
+    .eq('user_id', userId);
+
+  const search = filters.search?.trim();
+  if (search) {
+    const pattern = ilikePattern(search);
+    query = query.or(`title.ilike.${pattern},description.ilike.${pattern}`);
+  }
+  // Articles count toward every label, as in the dashboard's statistics
+  if (filters.category) query = query.contains('categories', [filters.category]);
+  if (filters.from) query = query.gte('read_at', new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) query = query.lt('read_at', nextDay(filters.to));
+
+  const { data, count, error } = await query
+    .order('read_at', { ascending: false })
+    .range(page * pageSize, (page + 1) * pageSize - 1);
+
+  if (error) throw error;
+  return { entries: z.array(historyRowSchema).parse(data ?? []), total: count ?? 0 };
+};
+
+// The user's most recent `limit` reads, newest first
+export const fetchRecentHistory = async (userId: string, limit: number): Promise<HistoryEntry[]> => {
+  const { data, error } = await supabase
+    .from('user_history')
+    .select(HISTORY_COLUMNS)
+    .eq('user_id', userId)
+    .order('read_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return z.array(historyRowSchema).parse(data ?? []);
+};
+
+// Every read between two YYYY-MM-DD days (inclusive), oldest first. Repeat
+// reads of an article count once each, at the time they happened.
+export const fetchReadsBetween = async (userId: string, from: string, to: string): Promise<Read[]> => {
+  const reads: Read[] = [];
+  for (let offset = 0; ; offset += MAX_ROWS) {
+    const { data, error } = await supabase
+      .from('read_events')
+      .select('read_at, user_history!inner(category, source)')
+      .eq('user_id', userId)
+      .gte('read_at', new Date(`${from}T00:00:00`).toISOString())
+      .lt('read_at', nextDay(to))
+      .order('read_at', { ascending: true })
+      .range(offset, offset + MAX_ROWS - 1);
+
+    if (error) throw error;
+    reads.push(...z.array(readEventRowSchema).parse(data ?? []));
+    if (!data || data.length < MAX_ROWS) return reads;
+  }
+};
+
+export const deleteHistoryEntries = async (userId: string, ids: string[]) => {
+  if (ids.length === 0) return;
+  const { error } = await supabase
+    .from('user_history')
+    .delete()
+    .eq('user_id', userId)
+    .in('id', ids);
+  if (error) throw error;
+};
+
+// Record that the user opened an article. The article is registered once under
+// its canonical ID, which the database derives from the normalized URL, and its
+// metadata is kept on the user's own history row; reading it again bumps the
+// row's read_count instead of adding a row. Returns how many times the user has
+// now read it.
+export const recordArticleRead = async (article: NewsArticle): Promise<number> => {
+  const { data, error } = await supabase.rpc('record_article_read', {
+    p_url: normalizeArticleUrl(article.url),
+    p_title: article.title,
+    p_description: article.description,
+    p_image_url: article.urlToImage || null,
+    p_source: article.source,
+    // Feeds without a usable date leave it unknown
+    p_published_at: Number.isNaN(Date.parse(article.publishedAt)) ? null : article.publishedAt,
+    p_category: article.category,
+    p_categories: article.categories.length > 0 ? article.categories : [article.category]
+  });
+  if (error) throw error;
+  return data as number;
+};
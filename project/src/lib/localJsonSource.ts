@@ -0,0 +1,78 @@
+import { PLACEHOLDER_IMAGE_URL } from './newsApi';
+import { fetchText } from './rssSource';
+import { singlePage } from './newsSources';
+import { parseArticles, sourceArticleSchema } from './articleSchema';
+import type { DroppedArticles, NewsSource, SourceArticle } from './newsSources';
+
+const stringField = (record: Record<string, unknown>, ...keys: string[]) => {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === 'string' && value.trim()) return value.trim();
+  }
+  return '';
+};
+
+// Accepts an array of articles or `{ "articles": [...] }`, in either our field
+// names or NewsAPI's (`source` may be a string or `{ name }`). Items that are
+// not valid articles are dropped and counted.
+export const parseLocalArticles = (
+  json: unknown,
+  fallbackSource: string
+): { articles: SourceArticle[]; dropped: DroppedArticles } => {
+  const list = Array.isArray(json)
+    ? json
+    : (json as { articles?: unknown } | null)?.articles;
+  if (!Array.isArray(list)) {
+    throw new Error(`${fallbackSource} must contain an array of articles`);
+  }
+
+  const items = list.map((item: unknown) => {
+    // Left as they are for the schema to reject
+    if (!item || typeof item !== 'object') return item;
+    const record = item as Record<string, unknown>;
+    const source = record.source && typeof record.source === 'object'
+      ? stringField(record.source as Record<string, unknown>, 'name')
+      : stringField(record, 'source');
+    // Undated items are taken as new; a date that does not parse is an error
+    const publishedAt = stringField(record, 'publishedAt', 'published_at', 'date');
+
+    return {
+      title: stringField(record, 'title'),
+      description: stringField(record, 'description', 'summary'),
+      content: stringField(record, 'content', 'body'),
+      urlToImage: stringField(record, 'urlToImage', 'image_url', 'image') || PLACEHOLDER_IMAGE_URL,
+      sourceCategory: stringField(record, 'sourceCategory', 'category') || null,
+      url: stringField(record, 'url', 'link'),
+      source: source || fallbackSource,
+      publishedAt: publishedAt || new Date().toISOString()
+    };
+  });
+
+  return parseArticles(items, sourceArticleSchema);
+};
+
+export const createLocalJsonSource = (url: string): NewsSource => {
+  if (!url) throw new Error('JSON sources need a file URL, e.g. json:/fixtures/news.json');
+
+  return {
+    id: `json:${url}`,
+    name: url,
+    appliesQuery: false,
+    // Local files are cheap to reread and edited while developing
+    cacheTtlMs: 0,
+    fetchArticles: async (_query, page) => {
+      const text = await fetchText(url);
+      let json: unknown;
+      try {
+        json = JSON.parse(text);
+      } catch {
+        throw new Error(`${url} is not valid JSON`);
+      }
+      const { articles, dropped } = parseLocalArticles(json, url);
+      if (Object.keys(dropped).length > 0) {
+        console.warn(`Dropped malformed articles from ${url}:`, dropped);
+      }
+      return singlePage(articles, page, dropped);
+    }
+  };
+};
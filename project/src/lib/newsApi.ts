@@ -1,162 +1,209 @@
 import axios from 'axios';
+import { supabase } from './supabase';
+import { NewsError, NewsFetchError, toNewsError } from './newsErrors';
+import { describeSchemaError, newsApiArticleSchema, newsApiResponseSchema, parseArticles } from './articleSchema';
+import type { NewsQuery, NewsSource, PageRequest, SourcePage } from './newsSources';
+
+// Our news-proxy edge function holds the NewsAPI key; set VITE_NEWS_PROXY_URL
+// to use the local stand-in (npm run news-proxy) instead
+export const NEWS_PROXY_URL = import.meta.env.VITE_NEWS_PROXY_URL ||
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/news-proxy`;
+
+// Categories top-headlines can filter by; other taxonomy categories are
+// matched against predicted categories instead
+const NEWS_API_CATEGORIES = ['business', 'entertainment', 'general', 'health', 'science', 'sports', 'technology'];
+
+export const NEWS_API_LANGUAGES: Record<string, string> = {
+  ar: 'Arabic', de: 'German', en: 'English', es: 'Spanish', fr: 'French', he: 'Hebrew', it: 'Italian',
+  nl: 'Dutch', no: 'Norwegian', pt: 'Portuguese', ru: 'Russian', sv: 'Swedish', ud: 'Urdu', zh: 'Chinese'
+};
 
-const NEWS_API_KEY = import.meta.env.VITE_NEWS_API_KEY;
-const NEWS_API_BASE_URL = 'https://newsapi.org/v2';
+export const NEWS_API_COUNTRIES: Record<string, string> = {
+  us: 'United States', gb: 'United Kingdom', ca: 'Canada', au: 'Australia', ie: 'Ireland', in: 'India',
+  de: 'Germany', fr: 'France', it: 'Italy', nl: 'Netherlands', br: 'Brazil', mx: 'Mexico', jp: 'Japan', za: 'South Africa'
+};
 
-// List of CORS proxies to try in order
-const CORS_PROXIES = [
-  'https://api.allorigins.win/raw?url=',
-  'https://api.codetabs.com/v1/proxy?quest=',
-  'https://corsproxy.io/?'
-];
+const DEFAULT_COUNTRY = 'us';
 
-export interface NewsApiArticle {
-  source: {
-    id: string | null;
-    name: string;
-  };
-  author: string | null;
-  title: string;
-  description: string;
-  url: string;
-  urlToImage: string;
-  publishedAt: string;
-  content: string;
-}
+// The developer plan refuses to page past the first 100 results
+const MAX_RESULTS = 100;
 
-export interface NewsApiResponse {
-  status: string;
-  totalResults: number;
-  articles: NewsApiArticle[];
-}
+export const PLACEHOLDER_IMAGE_URL = 'https://images.unsplash.com/photo-1504711434969-e33886168f5c?auto=format&fit=crop&w=800';
 
-export interface NewsError extends Error {
+// What NewsAPI and the proxy send instead of articles when a request fails
+interface NewsApiErrorResponse {
+  status: 'error';
   code?: string;
-  response?: {
-    status: number;
-    data: any;
-  };
+  message?: string;
 }
 
+const isErrorResponse = (data: unknown): data is NewsApiErrorResponse =>
+  !!data && typeof data === 'object' && (data as { status?: unknown }).status === 'error';
+
 const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-const fetchWithProxy = async (url: string, proxyUrl: string) => {
-  const finalUrl = `${proxyUrl}${encodeURIComponent(url)}`;
-  
-  const response = await axios.get<NewsApiResponse>(finalUrl, {
-    timeout: 15000,
-    headers: {
-      'Accept': 'application/json',
-      'Content-Type': 'application/json',
-      'X-Requested-With': 'XMLHttpRequest',
-      'origin': window.location.origin
-    }
-  });
+// Give up rather than retry when the proxy asks us to wait longer than this
+const MAX_RETRY_WAIT_SECONDS = 10;
+
+// GET a proxy route as the signed-in user, who the proxy counts quota against.
+// Failures are thrown as NewsFetchError.
+export const fetchFromNewsProxy = async <T>(
+  path: string,
+  params: Record<string, string | number | undefined>,
+  responseType: 'json' | 'text' = 'json',
+  attempt = 1
+) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const proxy = `${NEWS_PROXY_URL}/${path}`;
 
-  if (!response.data || typeof response.data !== 'object') {
-    throw new Error('Invalid response format');
+  try {
+    return await axios.get<T>(proxy, {
+      params,
+      responseType,
+      timeout: 15000,
+      headers: session ? { Authorization: `Bearer ${session.access_token}` } : {}
+    });
+  } catch (error) {
+    throw new NewsFetchError(toNewsError(error, proxy, attempt));
   }
+};
 
-  if (response.data.status === 'error') {
-    throw new Error(response.data.message || 'News API returned an error');
+const fetchNewsApi = async (
+  endpoint: string,
+  params: Record<string, string | number | undefined>,
+  attempt: number
+) => {
+  const response = await fetchFromNewsProxy<unknown>(endpoint, params, 'json', attempt);
+  const proxy = `${NEWS_PROXY_URL}/${endpoint}`;
+
+  if (isErrorResponse(response.data)) {
+    throw new NewsFetchError({
+      proxy,
+      attempt,
+      kind: 'ProxyFailure',
+      status: response.status,
+      code: response.data.code ?? null,
+      upstreamMessage: response.data.message ?? null
+    });
   }
 
-  if (!Array.isArray(response.data.articles)) {
-    throw new Error('Invalid articles data received');
+  const parsed = newsApiResponseSchema.safeParse(response.data);
+  if (!parsed.success) {
+    throw new NewsFetchError({ proxy, attempt, kind: 'InvalidPayload', detail: describeSchemaError(parsed.error) });
   }
 
-  return response;
+  return parsed.data;
+};
+
+// How long to wait before retrying after an error, or null when retrying cannot help
+const retryDelayMs = (error: NewsError): number | null => {
+  switch (error.kind) {
+    case 'RateLimited':
+      // A used-up daily quota only resets tomorrow
+      if (error.quotaExceeded) return null;
+      if (error.retryAfterSeconds === null) return 2000 * error.attempt;
+      return error.retryAfterSeconds <= MAX_RETRY_WAIT_SECONDS ? error.retryAfterSeconds * 1000 : null;
+    case 'Timeout':
+    case 'Network':
+    case 'InvalidPayload':
+      return 1000 * error.attempt;
+    case 'ProxyFailure':
+      // 4xx means NewsAPI refused the request itself
+      return error.status === null || error.status >= 500 ? 1000 * error.attempt : null;
+    case 'Unauthorized':
+    case 'PlanRequired':
+      return null;
+  }
 };
 
-const fetchWithRetryAndFallback = async (url: string, retries = 2) => {
-  let lastError;
-
-  // Try each proxy
-  for (const proxy of CORS_PROXIES) {
-    // Try multiple times with the same proxy
-    for (let i = 0; i < retries; i++) {
-      try {
-        return await fetchWithProxy(url, proxy);
-      } catch (error) {
-        lastError = error;
-        
-        if (axios.isAxiosError(error)) {
-          if (error.response?.status === 429) {
-            // Rate limit - wait longer before retry
-            await delay(2000 * (i + 1));
-            continue;
-          }
-          
-          if (error.response?.status === 401) {
-            throw new Error('Invalid API key. Please check your configuration.');
-          }
-
-          if (error.response?.status === 426) {
-            throw new Error('Please upgrade to a paid plan for this feature.');
-          }
-        }
-        
-        // Wait before trying again
-        await delay(1000 * (i + 1));
+const fetchWithRetry = async (
+  endpoint: string,
+  params: Record<string, string | number | undefined>,
+  retries = 3
+) => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fetchNewsApi(endpoint, params, attempt);
+    } catch (error) {
+      const newsError = toNewsError(error, `${NEWS_PROXY_URL}/${endpoint}`, attempt);
+      const wait = retryDelayMs(newsError);
+      if (wait === null || attempt >= retries) {
+        throw new NewsFetchError(newsError);
       }
+      await delay(wait);
     }
   }
-
-  // If we get here, all proxies failed
-  throw lastError;
 };
 
-const getErrorMessage = (error: unknown): string => {
-  if (axios.isAxiosError(error)) {
-    if (error.response?.status === 429) {
-      return 'Rate limit exceeded. Please try again later.';
-    } else if (error.response?.status === 401) {
-      return 'Invalid API key. Please check your configuration.';
-    } else if (error.code === 'ECONNABORTED') {
-      return 'Request timed out. Please try again.';
-    } else if (error.response?.status === 426) {
-      return 'Please upgrade to a paid plan for this feature.';
-    } else if (error.code === 'ERR_NETWORK') {
-      return 'Connection error. Please check your internet connection and try again.';
-    } else if (error.response?.data?.message) {
-      return `News API Error: ${error.response.data.message}`;
+type NewsApiRequest = { endpoint: 'top-headlines' | 'everything'; params: Record<string, string | number | undefined> };
+
+// top-headlines covers category and country browsing; date ranges, language
+// and sort order are only supported by everything
+export const buildNewsApiRequest = (query: NewsQuery, { page, pageSize }: PageRequest): NewsApiRequest => {
+  const category = query.category?.toLowerCase();
+  const apiCategory = category && NEWS_API_CATEGORIES.includes(category) ? category : undefined;
+
+  if (query.from || query.to || query.language || query.sortBy) {
+    const q = query.q || query.category;
+    if (!q && !query.sources) {
+      throw new Error('Add keywords or sources to search by date, language or sort order.');
     }
-    return 'Failed to fetch news. Please try again later.';
+    return {
+      endpoint: 'everything',
+      params: {
+        q,
+        sources: query.sources,
+        from: query.from,
+        to: query.to,
+        language: query.language,
+        sortBy: query.sortBy,
+        page,
+        pageSize
+      }
+    };
   }
-  return error instanceof Error ? error.message : 'An unexpected error occurred.';
+
+  // NewsAPI rejects sources combined with country or category
+  if (query.sources) {
+    return { endpoint: 'top-headlines', params: { q: query.q, sources: query.sources, page, pageSize } };
+  }
+  return {
+    endpoint: 'top-headlines',
+    params: {
+      q: query.q,
+      category: apiCategory,
+      country: query.country || DEFAULT_COUNTRY,
+      page,
+      pageSize
+    }
+  };
 };
 
-export const fetchNewsArticles = async (category?: string) => {
-  try {
-    const endpoint = category 
-      ? `${NEWS_API_BASE_URL}/top-headlines?category=${category.toLowerCase()}&pageSize=100&country=us&apiKey=${NEWS_API_KEY}`
-      : `${NEWS_API_BASE_URL}/top-headlines?pageSize=100&country=us&apiKey=${NEWS_API_KEY}`;
-
-    const response = await fetchWithRetryAndFallback(endpoint);
-
-    return response.data.articles
-      .filter(article => 
-        article && 
-        typeof article === 'object' && 
-        article.title && 
-        article.description
-      )
-      .map(article => ({
-        title: article.title.trim(),
-        description: article.description.trim(),
-        urlToImage: article.urlToImage || 'https://images.unsplash.com/photo-1504711434969-e33886168f5c?auto=format&fit=crop&w=800',
-        category: category || 'General',
-        url: article.url,
-        source: article.source?.name || 'Unknown Source',
-        publishedAt: article.publishedAt
-      }));
-  } catch (error) {
-    const errorMessage = getErrorMessage(error);
-    console.error('News API Error:', {
-      message: errorMessage,
-      status: axios.isAxiosError(error) ? error.response?.status : undefined,
-      code: axios.isAxiosError(error) ? error.code : undefined
-    });
-    throw new Error(errorMessage);
+const fetchNewsApiArticles = async (query: NewsQuery, page: PageRequest): Promise<SourcePage> => {
+  const { endpoint, params } = buildNewsApiRequest(query, page);
+  const response = await fetchWithRetry(endpoint, params);
+
+  const { articles, dropped } = parseArticles(response.articles, newsApiArticleSchema);
+  if (Object.keys(dropped).length > 0) {
+    console.warn('Dropped malformed NewsAPI articles:', dropped);
   }
-};
\ No newline at end of file
+
+  const available = Math.min(response.totalResults, MAX_RESULTS);
+  return {
+    articles: articles.map(article => ({
+      ...article,
+      urlToImage: article.urlToImage ?? PLACEHOLDER_IMAGE_URL,
+      // The category NewsAPI filed the article under, if the feed was filtered
+      sourceCategory: typeof params.category === 'string' ? query.category! : null
+    })),
+    hasMore: page.page * page.pageSize < available,
+    dropped
+  };
+};
+
+export const newsApiSource: NewsSource = {
+  id: 'newsapi',
+  name: 'NewsAPI',
+  appliesQuery: true,
+  fetchArticles: fetchNewsApiArticles
+};
@@ -1,72 +1,96 @@
-import * as tf from '@tensorflow/tfjs';
-
-// Enhanced category keywords with more comprehensive coverage
-const categoryKeywords = {
-  Technology: {
-    primary: ['ai', 'technology', 'software', 'digital', 'cyber', 'tech', 'computer', 'internet', 'blockchain', 'robot', 'code'],
-    secondary: ['innovation', 'startup', 'device', 'app', 'mobile', 'data', 'cloud', 'programming', 'algorithm', 'developer'],
-    companies: ['google', 'apple', 'microsoft', 'amazon', 'meta', 'tesla', 'nvidia', 'intel', 'ibm', 'oracle'],
-    concepts: ['artificial intelligence', 'machine learning', 'virtual reality', 'augmented reality', 'cryptocurrency', '5g', 'quantum computing', 'cybersecurity'],
-    products: ['iphone', 'android', 'windows', 'linux', 'ios', 'web3', 'neural network']
-  },
-  Business: {
-    primary: ['business', 'market', 'economy', 'finance', 'trade', 'investment', 'stock', 'revenue', 'profit'],
-    secondary: ['startup', 'company', 'industry', 'corporate', 'enterprise', 'merger', 'acquisition', 'venture'],
-    financial: ['nasdaq', 'dow jones', 'sp500', 'wall street', 'ipo', 'earnings', 'shares', 'dividend', 'portfolio'],
-    concepts: ['quarterly report', 'market analysis', 'economic growth', 'fiscal policy', 'monetary policy', 'inflation', 'recession'],
-    sectors: ['banking', 'retail', 'manufacturing', 'real estate', 'energy', 'automotive']
-  },
-  Politics: {
-    primary: ['politics', 'government', 'election', 'policy', 'congress', 'senate', 'democrat', 'republican', 'parliament'],
-    secondary: ['legislation', 'vote', 'campaign', 'political', 'president', 'administration', 'diplomatic', 'governor'],
-    international: ['foreign policy', 'international relations', 'diplomacy', 'treaty', 'sanctions', 'united nations', 'eu'],
-    concepts: ['democracy', 'constitution', 'bipartisan', 'legislative', 'judiciary', 'executive order'],
-    events: ['summit', 'referendum', 'inauguration', 'impeachment', 'coalition']
-  },
-  Sports: {
-    primary: ['sports', 'game', 'team', 'player', 'championship', 'tournament', 'match', 'score', 'athlete'],
-    secondary: ['win', 'lose', 'victory', 'defeat', 'season', 'league', 'coach', 'stadium', 'record'],
-    leagues: ['nfl', 'nba', 'mlb', 'nhl', 'fifa', 'uefa', 'olympics', 'premier league', 'formula 1'],
-    concepts: ['world cup', 'super bowl', 'playoffs', 'final four', 'grand slam', 'medal', 'draft'],
-    roles: ['quarterback', 'striker', 'pitcher', 'defender', 'manager', 'referee']
-  },
-  Entertainment: {
-    primary: ['entertainment', 'movie', 'film', 'music', 'celebrity', 'actor', 'actress', 'star', 'director'],
-    secondary: ['hollywood', 'tv', 'show', 'series', 'album', 'concert', 'award', 'performance', 'cast'],
-    events: ['oscar', 'grammy', 'emmy', 'golden globe', 'festival', 'premiere', 'red carpet'],
-    concepts: ['box office', 'streaming', 'rating', 'review', 'debut', 'sequel', 'franchise'],
-    platforms: ['netflix', 'disney', 'hbo', 'spotify', 'amazon prime', 'hulu']
-  },
-  Health: {
-    primary: ['health', 'medical', 'disease', 'treatment', 'patient', 'doctor', 'hospital', 'medicine', 'clinic'],
-    secondary: ['research', 'study', 'clinical', 'therapy', 'vaccine', 'drug', 'pharmaceutical', 'diagnosis'],
-    conditions: ['cancer', 'diabetes', 'heart disease', 'obesity', 'mental health', 'alzheimer', 'covid'],
-    concepts: ['public health', 'healthcare', 'medical research', 'clinical trial', 'prevention', 'wellness'],
-    specialists: ['surgeon', 'physician', 'nurse', 'pediatrician', 'psychiatrist']
-  },
-  Science: {
-    primary: ['science', 'research', 'study', 'discovery', 'scientist', 'experiment', 'theory', 'evidence', 'laboratory'],
-    secondary: ['scientific', 'physics', 'chemistry', 'biology', 'astronomy', 'climate', 'evolution', 'genome'],
-    fields: ['quantum', 'molecular', 'genetic', 'environmental', 'neuroscience', 'biochemistry', 'astrophysics'],
-    concepts: ['peer review', 'scientific method', 'breakthrough', 'hypothesis', 'observation', 'data analysis'],
-    institutions: ['nasa', 'cern', 'university', 'laboratory', 'institute']
-  }
+import type { io } from '@tensorflow/tfjs';
+import { loadNewsModel, predictProbabilities, NEWS_MODEL_URL, LoadedNewsModel } from './newsModel';
+import { contentWords, preprocessText } from './textPreprocessing';
+import calibration from './classifierCalibration.json';
+import feedback from './classifierFeedback.json';
+import { FeedbackAdjustments } from './feedbackAdjustments';
+import { DEFAULT_TAXONOMY, KeywordGroups, Taxonomy, UNCATEGORIZED } from './taxonomy';
+
+export { UNCATEGORIZED };
+
+// Confidences are calibrated probabilities in [0, 1]; predictions sum to 1.
+// `labels` holds the single winning category, or in multi-label mode every
+// category above its threshold; it is empty when the text is uncategorized.
+export interface ClassificationResult {
+  category: string;
+  confidence: number;
+  predictions: Array<{ category: string; confidence: number }>;
+  labels: string[];
+  explanations: CategoryExplanation[];
+  // Which scorer decided the category; explanations are keyword evidence either way
+  source: ScoreSource;
+}
+
+// 'feedback' terms come from user corrections rather than the taxonomy
+export type KeywordTier = 'primary' | 'secondary' | 'other' | 'feedback';
+
+// How much a matched keyword added to a category's raw score
+export interface TermContribution {
+  term: string;
+  weight: number;
+  tier: KeywordTier;
+}
+
+// Keyword evidence behind each category. The trained model is not
+// interpretable term by term, so these always come from keyword scoring
+// plus any adjustments learned from user feedback.
+export interface CategoryExplanation {
+  category: string;
+  terms: TermContribution[];
+}
+
+export interface ClassifyOptions {
+  multiLabel?: boolean;
+}
+
+export type ScoreSource = 'model' | 'keywords';
+
+// Uncalibrated per-category evidence, before temperature scaling
+export interface CategoryScores {
+  source: ScoreSource;
+  logits: Array<{ category: string; logit: number }>;
+  hasEvidence: boolean;
+}
+
+export interface CalibrationParams {
+  uncategorizedThreshold: number;
+  keywords: { temperature: number };
+  model: { temperature: number };
+  multiLabel: {
+    defaultThreshold: number;
+    thresholds: Record<string, number>;
+  };
+}
+
+const calibrationParams: CalibrationParams = calibration;
+
+let feedbackAdjustments: FeedbackAdjustments = feedback;
+
+const multiLabelThreshold = (category: string, params: CalibrationParams): number => {
+  return params.multiLabel.thresholds[category] ?? params.multiLabel.defaultThreshold;
+};
+
+// Keyword table derived from the active taxonomy
+const toKeywordTable = (taxonomy: Taxonomy): Record<string, KeywordGroups> => {
+  return Object.fromEntries(
+    taxonomy.categories.map(category => [category.name, category.keywords])
+  );
 };
 
 // Create enhanced vocabulary with word importance weights
-const createWeightedVocabulary = () => {
+const createWeightedVocabulary = (keywordTable: Record<string, KeywordGroups>) => {
   const weightedVocab = new Map<string, number>();
   
-  Object.values(categoryKeywords).forEach(category => {
+  Object.values(keywordTable).forEach(category => {
     // Primary keywords get highest weight
-    category.primary.forEach(keyword => {
+    (category.primary ?? []).forEach(keyword => {
       keyword.split(' ').forEach(word => {
         weightedVocab.set(word.toLowerCase(), 3.0);
       });
     });
     
     // Secondary keywords get medium weight
-    category.secondary.forEach(keyword => {
+    (category.secondary ?? []).forEach(keyword => {
       keyword.split(' ').forEach(word => {
         weightedVocab.set(word.toLowerCase(), 2.0);
       });
@@ -89,15 +113,8 @@ const createWeightedVocabulary = () => {
   return weightedVocab;
 };
 
-const weightedVocabulary = createWeightedVocabulary();
-
-// Enhanced text preprocessing
-const preprocessText = (text: string): string[] => {
-  return text.toLowerCase()
-    .replace(/[^\w\s]/g, ' ')
-    .split(/\s+/)
-    .filter(word => word.length > 1);
-};
+let categoryKeywords = toKeywordTable(DEFAULT_TAXONOMY);
+let weightedVocabulary = createWeightedVocabulary(categoryKeywords);
 
 // Calculate enhanced TF-IDF with word importance weights
 const calculateWeightedTfIdf = (text: string): Map<string, number> => {
@@ -121,35 +138,53 @@ const calculateWeightedTfIdf = (text: string): Map<string, number> => {
   return scores;
 };
 
+const toTier = (group: string): KeywordTier => {
+  return group === 'primary' || group === 'secondary' ? group : 'other';
+};
+
+interface ScoredEvidence {
+  score: number;
+  terms: TermContribution[];
+}
+
 // Calculate semantic similarity between text and category
-const calculateSemanticSimilarity = (textScores: Map<string, number>, category: string): number => {
+const calculateSemanticSimilarity = (textScores: Map<string, number>, category: string): ScoredEvidence => {
   let similarity = 0;
   let totalWeight = 0;
+  const terms: TermContribution[] = [];
   
-  Object.values(categoryKeywords[category as keyof typeof categoryKeywords]).forEach(terms => {
-    terms.forEach(term => {
-      const words = preprocessText(term);
+  Object.entries(categoryKeywords[category]).forEach(([group, keywords]) => {
+    keywords.forEach(keyword => {
+      const words = preprocessText(keyword);
       words.forEach(word => {
         const wordScore = textScores.get(word) || 0;
         const wordWeight = weightedVocabulary.get(word) || 1.0;
         similarity += wordScore * wordWeight;
         totalWeight += wordWeight;
+        if (wordScore > 0) {
+          terms.push({ term: word, weight: wordScore * wordWeight, tier: toTier(group) });
+        }
       });
     });
   });
   
-  return totalWeight > 0 ? similarity / totalWeight : 0;
+  if (totalWeight === 0) return { score: 0, terms: [] };
+  return {
+    score: similarity / totalWeight,
+    terms: terms.map(term => ({ ...term, weight: term.weight / totalWeight }))
+  };
 };
 
 // Analyze context patterns with enhanced scoring
-const analyzeContextPatterns = (text: string): Map<string, number> => {
-  const scores = new Map<string, number>();
+const analyzeContextPatterns = (text: string): Map<string, ScoredEvidence> => {
+  const scores = new Map<string, ScoredEvidence>();
   const words = preprocessText(text);
   const textLength = words.length;
   
   Object.entries(categoryKeywords).forEach(([category, keywords]) => {
     let score = 0;
     let matches = 0;
+    const matched: TermContribution[] = [];
     
     // Check for exact phrase matches
     Object.entries(keywords).forEach(([type, terms]) => {
@@ -159,50 +194,264 @@ const analyzeContextPatterns = (text: string): Map<string, number> => {
                         type === 'secondary' ? 3 : 2;
           score += weight;
           matches++;
+          matched.push({ term: term.toLowerCase(), weight, tier: toTier(type) });
         }
       });
     });
     
     // Calculate density-based score
-    const density = matches / textLength;
-    const finalScore = (score * (1 + density)) / (1 + Math.log(1 + textLength));
-    scores.set(category, finalScore);
+    const density = textLength > 0 ? matches / textLength : 0;
+    const scale = (1 + density) / (1 + Math.log(1 + textLength));
+    scores.set(category, {
+      score: score * scale,
+      terms: matched.map(term => ({ ...term, weight: term.weight * scale }))
+    });
   });
   
   return scores;
 };
 
-// Main classification function with improved accuracy
-export const classifyNews = (text: string): {
-  category: string;
-  confidence: number;
-  predictions: Array<{ category: string; confidence: number }>;
-} => {
+// Merge repeated terms and order by contribution
+const summarizeTerms = (terms: TermContribution[]): TermContribution[] => {
+  const merged = new Map<string, TermContribution>();
+  terms.forEach(term => {
+    const existing = merged.get(term.term);
+    merged.set(term.term, existing
+      ? { ...existing, weight: existing.weight + term.weight }
+      : term);
+  });
+  return Array.from(merged.values()).sort((a, b) => b.weight - a.weight);
+};
+
+interface KeywordAnalysis {
+  scores: CategoryScores;
+  explanations: CategoryExplanation[];
+}
+
+const analyzeWithKeywords = (text: string): KeywordAnalysis => {
   const textScores = calculateWeightedTfIdf(text);
   const contextScores = analyzeContextPatterns(text);
-  const predictions = new Map<string, number>();
+  const logits: CategoryScores['logits'] = [];
+  const explanations: CategoryExplanation[] = [];
   
   Object.keys(categoryKeywords).forEach(category => {
-    const semanticScore = calculateSemanticSimilarity(textScores, category);
-    const contextScore = contextScores.get(category) || 0;
+    const semantic = calculateSemanticSimilarity(textScores, category);
+    const context = contextScores.get(category) || { score: 0, terms: [] };
     
     // Weighted combination of scores
-    const combinedScore = (semanticScore * 0.6) + (contextScore * 0.4);
-    predictions.set(category, combinedScore);
+    const combinedScore = (semantic.score * 0.6) + (context.score * 0.4);
+    logits.push({ category, logit: combinedScore });
+
+    const terms = summarizeTerms([
+      ...semantic.terms.map(term => ({ ...term, weight: term.weight * 0.6 })),
+      ...context.terms.map(term => ({ ...term, weight: term.weight * 0.4 }))
+    ]);
+    if (terms.length > 0) {
+      explanations.push({ category, terms });
+    }
   });
   
-  // Normalize scores to percentages
-  const maxScore = Math.max(...predictions.values());
-  const normalizedPredictions = Array.from(predictions.entries())
-    .map(([category, score]) => ({
+  return {
+    scores: {
+      source: 'keywords',
+      logits,
+      hasEvidence: logits.some(({ logit }) => logit > 0)
+    },
+    explanations
+  };
+};
+
+// Replace the learned feedback adjustments, e.g. after rerunning the feedback job
+export const setFeedbackAdjustments = (adjustments: FeedbackAdjustments): void => {
+  feedbackAdjustments = adjustments;
+};
+
+export const getFeedbackAdjustments = (): FeedbackAdjustments => feedbackAdjustments;
+
+// Add learned per-term adjustments on top of either scorer's logits
+const applyFeedback = (scores: CategoryScores, text: string): KeywordAnalysis => {
+  const words = contentWords(text);
+  const scale = 1 / (1 + Math.log(1 + words.length));
+  const contributions = new Map<string, TermContribution[]>();
+
+  new Set(words).forEach(word => {
+    Object.entries(feedbackAdjustments.terms[word] ?? {}).forEach(([category, adjustment]) => {
+      const terms = contributions.get(category) ?? [];
+      terms.push({ term: word, weight: adjustment * scale, tier: 'feedback' });
+      contributions.set(category, terms);
+    });
+  });
+
+  const logits = scores.logits.map(({ category, logit }) => ({
+    category,
+    logit: logit + (contributions.get(category) ?? []).reduce((sum, term) => sum + term.weight, 0)
+  }));
+
+  return {
+    scores: {
+      ...scores,
+      logits,
+      hasEvidence: scores.hasEvidence ||
+        Array.from(contributions.values()).some(terms => terms.some(term => term.weight > 0))
+    },
+    explanations: scores.logits
+      .filter(({ category }) => contributions.has(category))
+      .map(({ category }) => ({ category, terms: contributions.get(category)! }))
+  };
+};
+
+// Fold feedback terms into the keyword explanations
+const mergeExplanations = (
+  keyword: CategoryExplanation[],
+  learned: CategoryExplanation[]
+): CategoryExplanation[] => {
+  const merged = new Map(keyword.map(explanation => [explanation.category, explanation.terms]));
+  learned.forEach(({ category, terms }) => {
+    merged.set(category, [...(merged.get(category) ?? []), ...terms]);
+  });
+  return Array.from(merged.entries()).map(([category, terms]) => ({
+    category,
+    terms: [...terms].sort((a, b) => b.weight - a.weight)
+  }));
+};
+
+// Temperature-scaled softmax; higher temperatures flatten the distribution
+export const applyTemperature = (logits: number[], temperature: number): number[] => {
+  const scaled = logits.map(logit => logit / temperature);
+  const max = Math.max(...scaled);
+  const exps = scaled.map(value => Math.exp(value - max));
+  const sum = exps.reduce((total, value) => total + value, 0);
+  return exps.map(value => value / sum);
+};
+
+const toClassificationResult = (
+  scores: CategoryScores,
+  explanations: CategoryExplanation[],
+  { multiLabel = false }: ClassifyOptions = {},
+  params: CalibrationParams = calibrationParams
+): ClassificationResult => {
+  const probabilities = applyTemperature(
+    scores.logits.map(({ logit }) => logit),
+    params[scores.source].temperature
+  );
+  const predictions = scores.logits
+    .map(({ category }, index) => ({
       category,
-      confidence: Math.min((score / maxScore) * 100, 100)
+      confidence: probabilities[index]
     }))
     .sort((a, b) => b.confidence - a.confidence);
+
+  const isLowConfidence = !scores.hasEvidence ||
+    predictions[0].confidence < params.uncategorizedThreshold;
+  const category = isLowConfidence ? UNCATEGORIZED : predictions[0].category;
+
+  let labels = isLowConfidence ? [] : [category];
+  if (multiLabel && scores.hasEvidence) {
+    const aboveThreshold = predictions
+      .filter(pred => pred.confidence >= multiLabelThreshold(pred.category, params))
+      .map(pred => pred.category);
+    // A confident winner always stays a label even if its own threshold is stricter
+    labels = Array.from(new Set([...labels, ...aboveThreshold]));
+  }
   
   return {
-    category: normalizedPredictions[0].category,
-    confidence: normalizedPredictions[0].confidence,
-    predictions: normalizedPredictions
+    category,
+    confidence: predictions[0].confidence,
+    predictions,
+    labels,
+    explanations,
+    source: scores.source
+  };
+};
+
+// Keyword-based classification, used whenever the trained model is unavailable
+export const classifyWithKeywords = (text: string, options?: ClassifyOptions): ClassificationResult => {
+  const keyword = analyzeWithKeywords(text);
+  const learned = applyFeedback(keyword.scores, text);
+  return toClassificationResult(
+    learned.scores,
+    mergeExplanations(keyword.explanations, learned.explanations),
+    options
+  );
+};
+
+let loadedModel: LoadedNewsModel | null = null;
+
+// The model can only predict the labels it was trained on, so it is used
+// only while those match the taxonomy's categories exactly
+const modelMatchesTaxonomy = (model: LoadedNewsModel): boolean => {
+  const categories = Object.keys(categoryKeywords);
+  return model.metadata.labels.length === categories.length &&
+    model.metadata.labels.every(label => label in categoryKeywords);
+};
+
+const activeModel = (): LoadedNewsModel | null => {
+  return loadedModel && modelMatchesTaxonomy(loadedModel) ? loadedModel : null;
+};
+
+// Rebuild the keyword table and weighted vocabulary from a loaded taxonomy
+export const setTaxonomy = (taxonomy: Taxonomy): void => {
+  categoryKeywords = toKeywordTable(taxonomy);
+  weightedVocabulary = createWeightedVocabulary(categoryKeywords);
+};
+
+// Load the trained TF.js model; on failure classifyNews keeps using keyword scoring
+export const loadClassifierModel = async (
+  source: string | io.IOHandler = NEWS_MODEL_URL
+): Promise<boolean> => {
+  try {
+    loadedModel = await loadNewsModel(source);
+    return true;
+  } catch (error) {
+    console.warn('News classifier model unavailable, falling back to keyword scoring:', error);
+    loadedModel = null;
+    return false;
+  }
+};
+
+export const isModelLoaded = (): boolean => activeModel() !== null;
+
+// Whether a trained model loaded, and whether classifyNews is using it, which
+// it only does while the model's labels match the taxonomy
+export interface ClassifierStatus {
+  modelLoaded: boolean;
+  modelInUse: boolean;
+}
+
+export const getClassifierStatus = (): ClassifierStatus => ({
+  modelLoaded: loadedModel !== null,
+  modelInUse: activeModel() !== null
+});
+
+// Model log-probabilities act as logits, so temperature scaling applies to both sources
+const scoreWithModel = (model: LoadedNewsModel, text: string): CategoryScores => {
+  const probabilities = predictProbabilities(model, text);
+
+  return {
+    source: 'model',
+    logits: model.metadata.labels.map((category, index) => ({
+      category,
+      logit: Math.log(Math.max(probabilities[index], 1e-7))
+    })),
+    hasEvidence: preprocessText(text).some(word => model.wordIndex.has(word))
   };
-};
\ No newline at end of file
+};
+
+// Raw scores from whichever scorer classifyNews would use; exposed for calibration
+export const scoreCategories = (text: string): CategoryScores => {
+  const model = activeModel();
+  const scores = model ? scoreWithModel(model, text) : analyzeWithKeywords(text).scores;
+  return applyFeedback(scores, text).scores;
+};
+
+// Main classification function: trained model when usable, keyword scoring otherwise
+export const classifyNews = (text: string, options?: ClassifyOptions): ClassificationResult => {
+  const keyword = analyzeWithKeywords(text);
+  const model = activeModel();
+  const learned = applyFeedback(model ? scoreWithModel(model, text) : keyword.scores, text);
+  return toClassificationResult(
+    learned.scores,
+    mergeExplanations(keyword.explanations, learned.explanations),
+    options
+  );
+};
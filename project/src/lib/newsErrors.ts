@@ -0,0 +1,139 @@
+import axios from 'axios';
+
+// Which proxy route failed and on which attempt, for every kind of failure
+interface NewsErrorContext {
+  proxy: string;
+  attempt: number;
+}
+
+export type NewsError = NewsErrorContext & (
+  | {
+      kind: 'RateLimited';
+      // Seconds until the proxy accepts requests again, when it said
+      retryAfterSeconds: number | null;
+      // The user's daily proxy quota is used up, rather than NewsAPI throttling
+      quotaExceeded: boolean;
+    }
+  | {
+      kind: 'Unauthorized';
+      // 'session': the user's sign-in expired; 'apiKey': the proxy's NewsAPI key was refused
+      reason: 'session' | 'apiKey';
+    }
+  | { kind: 'PlanRequired' }
+  | { kind: 'Timeout' }
+  | { kind: 'Network' }
+  | {
+      kind: 'ProxyFailure';
+      status: number | null;
+      code: string | null;
+      // NewsAPI's or the proxy's own explanation, if it sent one
+      upstreamMessage: string | null;
+    }
+  | { kind: 'InvalidPayload'; detail: string }
+);
+
+export type NewsErrorKind = NewsError['kind'];
+
+export const describeNewsError = (error: NewsError): string => {
+  switch (error.kind) {
+    case 'RateLimited':
+      return error.quotaExceeded
+        ? 'You have reached your daily news limit.'
+        : 'Too many news requests. Please wait a moment.';
+    case 'Unauthorized':
+      return error.reason === 'session'
+        ? 'Your session has expired. Please sign in again.'
+        : 'The news proxy has an invalid API key. Please check its configuration.';
+    case 'PlanRequired':
+      return 'This search needs a paid NewsAPI plan.';
+    case 'Timeout':
+      return 'The news request timed out.';
+    case 'Network':
+      return 'Connection error. Please check your internet connection.';
+    case 'ProxyFailure':
+      if (error.upstreamMessage) return `News API Error: ${error.upstreamMessage}`;
+      return error.status
+        ? `The news proxy failed (${error.status}${error.code ? ` ${error.code}` : ''}).`
+        : 'The news proxy failed.';
+    case 'InvalidPayload':
+      return `The news proxy sent an unexpected response: ${error.detail}`;
+  }
+};
+
+// Thrown by the news fetching layer; `detail` says what went wrong
+export class NewsFetchError extends Error {
+  constructor(public detail: NewsError) {
+    super(describeNewsError(detail));
+    this.name = 'NewsFetchError';
+  }
+}
+
+// Retry-After is either delay-seconds or an HTTP date
+const parseRetryAfter = (value: unknown): number | null => {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+};
+
+// Text routes (feeds) hand back the proxy's JSON error body unparsed
+const errorBody = (data: unknown): Record<string, unknown> => {
+  if (typeof data === 'string') {
+    try {
+      return errorBody(JSON.parse(data));
+    } catch {
+      return {};
+    }
+  }
+  return data && typeof data === 'object' ? data as Record<string, unknown> : {};
+};
+
+// Sort any failure of a proxy request into one of the error kinds
+export const toNewsError = (error: unknown, proxy: string, attempt: number): NewsError => {
+  if (error instanceof NewsFetchError) return error.detail;
+
+  const context = { proxy, attempt };
+  if (!axios.isAxiosError(error)) {
+    return {
+      ...context,
+      kind: 'ProxyFailure',
+      status: null,
+      code: null,
+      upstreamMessage: error instanceof Error ? error.message : null
+    };
+  }
+
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return { ...context, kind: 'Timeout' };
+  }
+  if (!error.response) {
+    return { ...context, kind: 'Network' };
+  }
+
+  const { status, data, headers } = error.response;
+  const body = errorBody(data);
+  const code = typeof body.code === 'string' ? body.code : null;
+
+  if (status === 429) {
+    return {
+      ...context,
+      kind: 'RateLimited',
+      retryAfterSeconds: parseRetryAfter(headers['retry-after']),
+      quotaExceeded: code === 'quotaExceeded'
+    };
+  }
+  if (status === 401 || code === 'apiKeyMissing') {
+    return { ...context, kind: 'Unauthorized', reason: code === 'unauthorized' ? 'session' : 'apiKey' };
+  }
+  if (status === 426) {
+    return { ...context, kind: 'PlanRequired' };
+  }
+  return {
+    ...context,
+    kind: 'ProxyFailure',
+    status,
+    code,
+    upstreamMessage: typeof body.message === 'string' ? body.message : null
+  };
+};
@@ -0,0 +1,117 @@
+import * as tf from '@tensorflow/tfjs';
+import { preprocessText } from './textPreprocessing';
+
+export const NEWS_MODEL_URL = '/models/news-classifier/model.json';
+
+// Reserved slot for words the model has not seen
+const OOV_INDEX = 0;
+
+// Stored in the model artifact's userDefinedMetadata so the browser
+// encodes text exactly the way the training script did
+export interface NewsModelMetadata {
+  labels: string[];
+  vocabulary: string[];
+}
+
+export interface LoadedNewsModel {
+  model: tf.LayersModel;
+  metadata: NewsModelMetadata;
+  wordIndex: Map<string, number>;
+}
+
+// Build a frequency-ordered vocabulary, leaving room for the OOV slot
+export const buildVocabulary = (texts: string[], maxSize = 5000): string[] => {
+  const counts = new Map<string, number>();
+
+  texts.forEach(text => {
+    preprocessText(text).forEach(word => {
+      counts.set(word, (counts.get(word) || 0) + 1);
+    });
+  });
+
+  const words = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([word]) => word)
+    .slice(0, maxSize - 1);
+
+  return ['<oov>', ...words];
+};
+
+export const createWordIndex = (vocabulary: string[]): Map<string, number> => {
+  return new Map(vocabulary.map((word, index) => [word, index]));
+};
+
+// Convert text into normalized token counts over the vocabulary.
+// Feeding this through a bias-free dense layer is equivalent to averaging
+// word embeddings, without the per-word gather gradient that makes
+// embedding layers crawl on the pure JS CPU backend used for training.
+export const encodeText = (text: string, wordIndex: Map<string, number>): number[] => {
+  const vector = new Array<number>(wordIndex.size).fill(0);
+  const words = preprocessText(text);
+
+  words.forEach(word => {
+    vector[wordIndex.get(word) ?? OOV_INDEX] += 1 / words.length;
+  });
+
+  return vector;
+};
+
+// Embedding + average pooling + dense network over bag-of-words input
+export const createNewsModel = (vocabularySize: number, labelCount: number): tf.LayersModel => {
+  const model = tf.sequential();
+
+  model.add(tf.layers.dense({
+    name: 'embedding_average',
+    inputShape: [vocabularySize],
+    units: 32,
+    useBias: false
+  }));
+  model.add(tf.layers.dense({ units: 32, activation: 'relu' }));
+  model.add(tf.layers.dropout({ rate: 0.3 }));
+  model.add(tf.layers.dense({ units: labelCount, activation: 'softmax' }));
+
+  model.compile({
+    optimizer: tf.train.adam(0.01),
+    loss: 'categoricalCrossentropy',
+    metrics: ['accuracy']
+  });
+
+  return model;
+};
+
+const isModelMetadata = (value: unknown): value is NewsModelMetadata => {
+  const metadata = value as NewsModelMetadata | undefined;
+  return !!metadata &&
+    Array.isArray(metadata.labels) &&
+    Array.isArray(metadata.vocabulary);
+};
+
+// Load a trained model from a URL (browser) or a custom IO handler (Node)
+export const loadNewsModel = async (
+  source: string | tf.io.IOHandler = NEWS_MODEL_URL
+): Promise<LoadedNewsModel> => {
+  const model = await tf.loadLayersModel(source);
+  const metadata = model.getUserDefinedMetadata();
+
+  if (!isModelMetadata(metadata)) {
+    model.dispose();
+    throw new Error('Model artifact is missing classifier metadata');
+  }
+
+  return {
+    model,
+    metadata,
+    wordIndex: createWordIndex(metadata.vocabulary)
+  };
+};
+
+// Probability per label, in the order of metadata.labels
+export const predictProbabilities = (loaded: LoadedNewsModel, text: string): number[] => {
+  const features = encodeText(text, loaded.wordIndex);
+
+  return tf.tidy(() => {
+    const input = tf.tensor2d([features], [1, features.length]);
+    const output = loaded.model.predict(input) as tf.Tensor;
+    return Array.from(output.dataSync());
+  });
+};
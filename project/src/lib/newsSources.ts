@@ -0,0 +1,362 @@
+import { classifyWithEntities } from './classifierClient';
+import { withFullText } from './articleExtraction';
+import { newsApiSource } from './newsApi';
+import { NewsFetchError } from './newsErrors';
+import { createRssSource } from './rssSource';
+import { createLocalJsonSource } from './localJsonSource';
+import { pruneArticleCache, readCachedArticles, writeCachedArticles } from './articleCache';
+import { mergeDroppedArticles } from './articleSchema';
+import type { DroppedArticles, NewsArticle, SourceArticle } from './articleSchema';
+
+export type { DroppedArticles, Entity, NewsArticle, SourceArticle } from './articleSchema';
+
+export type NewsSortOrder = 'relevancy' | 'popularity' | 'publishedAt';
+
+export interface NewsQuery {
+  category?: string;
+  // Keywords; NewsAPI also accepts its advanced syntax ("exact phrase", +must, -not)
+  q?: string;
+  // Inclusive YYYY-MM-DD dates
+  from?: string;
+  to?: string;
+  // Comma-separated NewsAPI source ids, e.g. bbc-news,reuters
+  sources?: string;
+  language?: string;
+  country?: string;
+  sortBy?: NewsSortOrder;
+}
+
+export interface PageRequest {
+  // 1-based
+  page: number;
+  pageSize: number;
+}
+
+export interface SourcePage {
+  articles: SourceArticle[];
+  hasMore: boolean;
+  // Items the source sent that failed validation, by reason
+  dropped?: DroppedArticles;
+}
+
+export interface NewsSource {
+  id: string;
+  name: string;
+  // Whether the source applies the whole query itself; other sources'
+  // articles are filtered on the client
+  appliesQuery: boolean;
+  // How long fetched articles count as fresh; 0 disables caching for the source
+  cacheTtlMs?: number;
+  fetchArticles: (query: NewsQuery, page: PageRequest) => Promise<SourcePage>;
+}
+
+export interface NewsFeed {
+  articles: NewsArticle[];
+  // When the oldest cached part of the feed was fetched; null if all of it is live
+  cachedAt: number | null;
+  // Set when a source could not be reached and its cached articles were used instead
+  isFallback: boolean;
+  // Page to request next, or null once every source is exhausted
+  nextPage: number | null;
+  // Malformed articles left out of this page by the sources fetched live, by reason
+  dropped: DroppedArticles;
+}
+
+export interface FetchNewsOptions {
+  page?: number;
+  pageSize?: number;
+  sourceIds?: string[];
+  // Called with the updated feed once stale cached sources have been refetched
+  onRefresh?: (feed: NewsFeed) => void;
+}
+
+const MINUTE = 60 * 1000;
+const DEFAULT_PAGE_SIZE = 20;
+
+// Cached articles younger than the TTL are served without a request. Older ones,
+// up to the stale limit, are served at once and refetched in the background.
+// Past that they are only used when the source cannot be reached.
+const CACHE_TTL_MS = (Number(import.meta.env.VITE_NEWS_CACHE_TTL_MINUTES) || 15) * MINUTE;
+const CACHE_STALE_MS = (Number(import.meta.env.VITE_NEWS_CACHE_STALE_HOURS) || 24) * 60 * MINUTE;
+const CACHE_MAX_AGE_MS = 7 * 24 * 60 * MINUTE;
+
+// Comma-separated list of `newsapi`, `rss:<url>` and `json:<url>` entries
+const DEFAULT_SOURCES = 'newsapi';
+
+export const parseSourceConfig = (config: string): NewsSource[] => {
+  return config
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(entry => entry)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      const type = separator === -1 ? entry : entry.slice(0, separator);
+      const url = separator === -1 ? '' : entry.slice(separator + 1).trim();
+
+      switch (type.toLowerCase()) {
+        case 'newsapi':
+          return newsApiSource;
+        case 'rss':
+        case 'atom':
+          return createRssSource(url);
+        case 'json':
+          return createLocalJsonSource(url);
+        default:
+          throw new Error(`Unknown news source type "${type}" in VITE_NEWS_SOURCES`);
+      }
+    });
+};
+
+let configuredSources: NewsSource[] | null = null;
+
+export const getNewsSources = (): NewsSource[] => {
+  configuredSources ??= parseSourceConfig(import.meta.env.VITE_NEWS_SOURCES || DEFAULT_SOURCES);
+  return configuredSources;
+};
+
+// Attach the predicted category, its confidence, every multi-label match and
+// the named entities. Both run in the classifier worker, since a page holds
+// up to 100 articles. The extracted full text replaces the
+// truncated content when there is one.
+export const classifyArticles = async <T extends SourceArticle>(
+  articles: T[],
+  signal?: AbortSignal
+): Promise<Array<T & Omit<NewsArticle, keyof SourceArticle>>> => {
+  const texts = articles.map(article => `${article.title} ${article.description} ${article.fullText ?? article.content}`);
+  const { results, entities } = await classifyWithEntities(texts, { options: { multiLabel: true }, signal });
+
+  return articles.map((article, index) => ({
+    ...article,
+    category: results[index].category,
+    confidence: results[index].confidence,
+    categories: results[index].labels,
+    entities: entities[index]
+  }));
+};
+
+// Extract the full text of each article and classify again on it. Only the
+// articles whose text was found are returned, for the caller to merge in.
+export const classifyFullText = async <T extends SourceArticle>(
+  articles: T[],
+  signal?: AbortSignal
+): Promise<Array<T & Omit<NewsArticle, keyof SourceArticle>>> => {
+  const extracted = (await withFullText(articles, signal)).filter(article => article.fullText);
+  return extracted.length > 0 ? classifyArticles(extracted, signal) : [];
+};
+
+// For sources that always return their whole feed: all of it on the first page
+export const singlePage = (
+  articles: SourceArticle[],
+  { page }: PageRequest,
+  dropped?: DroppedArticles
+): SourcePage => ({
+  articles: page === 1 ? articles : [],
+  hasMore: false,
+  dropped: page === 1 ? dropped : undefined
+});
+
+// Append a later page, skipping stories already shown on an earlier one
+export const mergeArticlePages = <T extends { url: string }>(existing: T[], incoming: T[]): T[] => {
+  const seen = new Set(existing.map(article => article.url));
+  return [...existing, ...incoming.filter(article => !seen.has(article.url))];
+};
+
+// Articles the source filed under the category, or that we classified into it
+const matchesCategory = (article: NewsArticle, category: string) => {
+  const wanted = category.toLowerCase();
+  return article.sourceCategory?.toLowerCase() === wanted ||
+    article.category.toLowerCase() === wanted ||
+    article.categories.some(label => label.toLowerCase() === wanted);
+};
+
+const slugify = (value: string) => value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Client-side version of the query for sources that cannot apply it. Language
+// and country are unknown for feeds and files, so they are not filtered on.
+const matchesQuery = (article: SourceArticle, query: NewsQuery) => {
+  if (query.q) {
+    const text = `${article.title} ${article.description} ${article.content}`.toLowerCase();
+    const terms = query.q.toLowerCase().split(/\s+/).map(term => term.replace(/^[+"]+|"+$/g, '')).filter(Boolean);
+    if (!terms.every(term => term.startsWith('-') ? !text.includes(term.slice(1)) : text.includes(term))) {
+      return false;
+    }
+  }
+
+  const publishedAt = article.publishedAt.slice(0, 10);
+  if (query.from && publishedAt < query.from) return false;
+  if (query.to && publishedAt > query.to) return false;
+
+  if (query.sources) {
+    const wanted = query.sources.split(',').map(slugify);
+    if (!wanted.includes(slugify(article.source))) return false;
+  }
+  return true;
+};
+
+interface SourceResult {
+  source: NewsSource;
+  articles: SourceArticle[];
+  hasMore: boolean;
+  cachedAt: number | null;
+  isFallback: boolean;
+  dropped?: DroppedArticles;
+}
+
+const cacheKey = (source: NewsSource, query: NewsQuery, { page, pageSize }: PageRequest) => {
+  const params = Object.entries(query)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .sort(([a], [b]) => a.localeCompare(b));
+  return `${source.id}|${JSON.stringify(params)}|${page}x${pageSize}`;
+};
+
+const fetchAndCache = async (
+  source: NewsSource,
+  query: NewsQuery,
+  page: PageRequest,
+  ttl: number
+): Promise<SourceResult> => {
+  const { articles, hasMore, dropped } = await source.fetchArticles(query, page);
+  if (ttl > 0) await writeCachedArticles(cacheKey(source, query, page), articles, hasMore);
+  return { source, articles, hasMore, cachedAt: null, isFallback: false, dropped };
+};
+
+// Resolve one source from cache or network. `refresh` is set when stale
+// cached articles were returned and a refetch is under way.
+const loadSource = async (
+  source: NewsSource,
+  query: NewsQuery,
+  page: PageRequest
+): Promise<{ result: SourceResult; refresh?: Promise<SourceResult> }> => {
+  const ttl = source.cacheTtlMs ?? CACHE_TTL_MS;
+  const cached = ttl > 0 ? await readCachedArticles(cacheKey(source, query, page)) : null;
+  const age = cached ? Date.now() - cached.fetchedAt : Infinity;
+  const fromCache = (isFallback: boolean): SourceResult => ({
+    source,
+    articles: cached!.articles,
+    hasMore: cached!.hasMore ?? false,
+    cachedAt: cached!.fetchedAt,
+    isFallback
+  });
+
+  if (cached && age < ttl) {
+    return { result: fromCache(false) };
+  }
+
+  if (cached && age < CACHE_STALE_MS) {
+    const refresh = fetchAndCache(source, query, page, ttl).catch(error => {
+      console.error(`News source ${source.name} failed to refresh:`, error);
+      return fromCache(true);
+    });
+    return { result: fromCache(false), refresh };
+  }
+
+  try {
+    return { result: await fetchAndCache(source, query, page, ttl) };
+  } catch (error) {
+    if (!cached) throw error;
+    console.error(`News source ${source.name} failed, using cached articles:`, error);
+    return { result: fromCache(true) };
+  }
+};
+
+const buildFeed = async (results: SourceResult[], query: NewsQuery, page: PageRequest): Promise<NewsFeed> => {
+  // The same story can come from several sources; keep the first copy of each URL
+  const seen = new Set<string>();
+  const articles = results.flatMap(({ source, articles }) =>
+    source.appliesQuery ? articles : articles.filter(article => matchesQuery(article, query))
+  ).filter(article => {
+    if (seen.has(article.url)) return false;
+    seen.add(article.url);
+    return true;
+  });
+
+  const classified = (await classifyArticles(articles))
+    .filter(article => !query.category || matchesCategory(article, query.category));
+  const cachedTimes = results.flatMap(result => result.cachedAt === null ? [] : [result.cachedAt]);
+
+  // Relevance and popularity are only known to NewsAPI, so keep its order for those
+  if (!query.sortBy || query.sortBy === 'publishedAt') {
+    classified.sort((a, b) => (Date.parse(b.publishedAt) || 0) - (Date.parse(a.publishedAt) || 0));
+  }
+
+  return {
+    articles: classified,
+    cachedAt: cachedTimes.length > 0 ? Math.min(...cachedTimes) : null,
+    isFallback: results.some(result => result.isFallback),
+    nextPage: results.some(result => result.hasMore) ? page.page + 1 : null,
+    dropped: mergeDroppedArticles(...results.map(result => result.dropped))
+  };
+};
+
+const QUERY_PARAMS: Array<keyof NewsQuery> = ['q', 'category', 'from', 'to', 'sources', 'language', 'country', 'sortBy'];
+const SORT_ORDERS: NewsSortOrder[] = ['relevancy', 'popularity', 'publishedAt'];
+
+// Queries live in the page URL so searches can be shared
+export const queryFromSearchParams = (params: URLSearchParams): NewsQuery => {
+  const query: NewsQuery = {};
+  QUERY_PARAMS.forEach(param => {
+    const value = params.get(param)?.trim();
+    if (!value) return;
+    if (param === 'sortBy') {
+      if (SORT_ORDERS.includes(value as NewsSortOrder)) query.sortBy = value as NewsSortOrder;
+    } else {
+      query[param] = value;
+    }
+  });
+  return query;
+};
+
+export const queryToSearchParams = (query: NewsQuery, params = new URLSearchParams()): URLSearchParams => {
+  QUERY_PARAMS.forEach(param => {
+    const value = query[param]?.trim();
+    if (value) {
+      params.set(param, value);
+    } else {
+      params.delete(param);
+    }
+  });
+  return params;
+};
+
+let cachePruned = false;
+
+// Fetch from every configured source (or just `sourceIds`), newest first
+// unless the query asks for another order.
+// A failing source is skipped as long as another one answers or is cached.
+export const fetchNewsArticles = async (
+  query: NewsQuery = {},
+  { page = 1, pageSize = DEFAULT_PAGE_SIZE, sourceIds, onRefresh }: FetchNewsOptions = {}
+): Promise<NewsFeed> => {
+  if (!cachePruned) {
+    cachePruned = true;
+    pruneArticleCache(CACHE_MAX_AGE_MS);
+  }
+
+  const sources = getNewsSources().filter(source => !sourceIds || sourceIds.includes(source.id));
+  const pageRequest: PageRequest = { page, pageSize };
+  const settled = await Promise.allSettled(sources.map(source => loadSource(source, query, pageRequest)));
+
+  const failures = settled.flatMap((outcome, index) =>
+    outcome.status === 'rejected' ? [{ source: sources[index].name, reason: outcome.reason }] : []
+  );
+  failures.forEach(({ source, reason }) => console.error(`News source ${source} failed:`, reason));
+  if (sources.length > 0 && failures.length === sources.length) {
+    // A proxy error tells the UI how to recover, so report one if any source hit it
+    const failure = failures.find(({ reason }) => reason instanceof NewsFetchError) ?? failures[0];
+    throw failure.reason instanceof Error
+      ? failure.reason
+      : new Error('Failed to fetch news. Please try again later.');
+  }
+
+  const loaded = settled.flatMap(outcome => outcome.status === 'fulfilled' ? [outcome.value] : []);
+  const feed = await buildFeed(loaded.map(({ result }) => result), query, pageRequest);
+
+  if (onRefresh && loaded.some(({ refresh }) => refresh)) {
+    Promise.all(loaded.map(({ result, refresh }) => refresh ?? result))
+      .then(results => buildFeed(results, query, pageRequest))
+      .then(onRefresh)
+      .catch(error => console.error('Failed to refresh news:', error));
+  }
+
+  return feed;
+};
@@ -0,0 +1,41 @@
+import type { NewsArticle } from './articleSchema';
+
+export interface UserPreferences {
+  // Categories picked during onboarding or in settings, in the order picked
+  preferredCategories: string[];
+  // Hidden from the feed and from recommendations
+  mutedCategories: string[];
+  // Outlet names as articles report them, e.g. "BBC News"
+  mutedSources: string[];
+}
+
+export const EMPTY_PREFERENCES: UserPreferences = {
+  preferredCategories: [],
+  mutedCategories: [],
+  mutedSources: []
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Whether the user muted the article's category or outlet. A category the user
+// is browsing on purpose stays visible even if muted.
+export const isMutedArticle = (
+  article: Pick<NewsArticle, 'category' | 'source'>,
+  preferences: UserPreferences,
+  browsingCategory?: string
+): boolean => {
+  if (preferences.mutedSources.some(source => sameName(source, article.source))) return true;
+  if (browsingCategory && sameName(browsingCategory, article.category)) return false;
+  return preferences.mutedCategories.some(category => sameName(category, article.category));
+};
+
+// Articles in a preferred category first, keeping the order within each group
+export const preferredFirst = <T extends Pick<NewsArticle, 'category' | 'categories'>>(
+  articles: T[],
+  preferences: UserPreferences
+): T[] => {
+  if (preferences.preferredCategories.length === 0) return articles;
+  const isPreferred = (article: T) => [article.category, ...article.categories]
+    .some(label => preferences.preferredCategories.some(category => sameName(category, label)));
+  return [...articles.filter(isPreferred), ...articles.filter(article => !isPreferred(article))];
+};
@@ -0,0 +1,40 @@
+import { supabase } from './supabase';
+import { UserPreferences } from './preferences';
+
+interface PreferencesRow {
+  preferred_categories: string[] | null;
+  muted_categories: string[] | null;
+  muted_sources: string[] | null;
+}
+
+// The user's saved preferences, or null if they have never saved any
+export const fetchPreferences = async (userId: string): Promise<UserPreferences | null> => {
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select('preferred_categories, muted_categories, muted_sources')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  const row = data as PreferencesRow;
+  return {
+    preferredCategories: row.preferred_categories ?? [],
+    mutedCategories: row.muted_categories ?? [],
+    mutedSources: row.muted_sources ?? []
+  };
+};
+
+export const savePreferences = async (userId: string, preferences: UserPreferences) => {
+  const { error } = await supabase
+    .from('user_preferences')
+    .upsert({
+      user_id: userId,
+      preferred_categories: preferences.preferredCategories,
+      muted_categories: preferences.mutedCategories,
+      muted_sources: preferences.mutedSources,
+      last_updated: new Date().toISOString()
+    }, { onConflict: 'user_id' });
+  if (error) throw error;
+};
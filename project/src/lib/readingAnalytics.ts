@@ -0,0 +1,133 @@
+// Reading statistics over read events, one per time an article was opened.
+// Days and hours are local time, since "read in the evening" means the
+// reader's evening.
+
+export interface Read {
+  read_at: string;
+  category: string;
+  source: string | null;
+}
+
+export type Granularity = 'day' | 'week';
+
+// One bar of the reads-over-time chart: the period start and a count per category
+export type PeriodReads = { period: string } & Record<string, number | string>;
+
+export interface Streaks {
+  // Consecutive days with a read, ending today or yesterday
+  current: number;
+  longest: number;
+  activeDays: number;
+}
+
+export interface CategoryShift {
+  category: string;
+  // Share of reads in each period, 0-1
+  previous: number;
+  current: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// YYYY-MM-DD of a local date
+export const localDay = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+// Local midnight of a YYYY-MM-DD date
+export const parseLocalDay = (day: string): Date => new Date(`${day}T00:00:00`);
+
+const addDays = (date: Date, days: number) => {
+  const next = new Date(date);
+  next.setDate(next.getDate() + days);
+  return next;
+};
+
+// Start of the period `date` falls in; weeks start on Monday
+const periodStart = (date: Date, granularity: Granularity): Date => {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  return granularity === 'week' ? addDays(start, -((start.getDay() + 6) % 7)) : start;
+};
+
+// Reads per period between two YYYY-MM-DD days (inclusive), by primary category.
+// Periods without reads are included so gaps show on the chart.
+export const readsOverTime = (
+  reads: Read[],
+  from: string,
+  to: string,
+  granularity: Granularity
+): { periods: PeriodReads[]; categories: string[] } => {
+  const periods = new Map<string, PeriodReads>();
+  const last = parseLocalDay(to);
+  for (let start = periodStart(parseLocalDay(from), granularity); start <= last;
+    start = addDays(start, granularity === 'week' ? 7 : 1)) {
+    periods.set(localDay(start), { period: localDay(start) });
+  }
+
+  const categories = new Set<string>();
+  reads.forEach(read => {
+    const row = periods.get(localDay(periodStart(new Date(read.read_at), granularity)));
+    if (!row) return;
+    row[read.category] = ((row[read.category] as number | undefined) ?? 0) + 1;
+    categories.add(read.category);
+  });
+
+  return { periods: Array.from(periods.values()), categories: Array.from(categories) };
+};
+
+// Reads per weekday (0 = Monday) and hour
+export const timeOfDayHeatmap = (reads: Read[]): number[][] => {
+  const grid = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  reads.forEach(read => {
+    const date = new Date(read.read_at);
+    grid[(date.getDay() + 6) % 7][date.getHours()]++;
+  });
+  return grid;
+};
+
+export const topSources = (reads: Read[], limit: number): Array<{ source: string; reads: number }> => {
+  const counts = new Map<string, number>();
+  reads.forEach(read => {
+    const source = read.source || 'Unknown';
+    counts.set(source, (counts.get(source) ?? 0) + 1);
+  });
+  return Array.from(counts.entries())
+    .map(([source, count]) => ({ source, reads: count }))
+    .sort((a, b) => b.reads - a.reads)
+    .slice(0, limit);
+};
+
+export const readingStreaks = (reads: Read[], today = new Date()): Streaks => {
+  const days = Array.from(new Set(reads.map(read => localDay(new Date(read.read_at))))).sort();
+
+  let longest = 0;
+  let run = 0;
+  days.forEach((day, index) => {
+    // Whole days apart; rounding absorbs daylight saving shifts
+    const gap = index > 0 ? Math.round((parseLocalDay(day).getTime() - parseLocalDay(days[index - 1]).getTime()) / DAY) : 0;
+    run = gap === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+
+  // The streak is still alive if the last read was today or yesterday
+  const lastDay = days[days.length - 1];
+  const isAlive = lastDay === localDay(today) || lastDay === localDay(addDays(today, -1));
+  return { current: isAlive ? run : 0, longest, activeDays: days.length };
+};
+
+// Each category's share of reads in two periods, biggest change first
+export const categoryMixShift = (previous: Read[], current: Read[]): CategoryShift[] => {
+  const shares = (reads: Read[]) => {
+    const counts = new Map<string, number>();
+    reads.forEach(read => counts.set(read.category, (counts.get(read.category) ?? 0) + 1));
+    counts.forEach((count, category) => counts.set(category, count / reads.length));
+    return counts;
+  };
+
+  const before = shares(previous);
+  const after = shares(current);
+  return Array.from(new Set([...before.keys(), ...after.keys()]))
+    .map(category => ({ category, previous: before.get(category) ?? 0, current: after.get(category) ?? 0 }))
+    .sort((a, b) => Math.abs(b.current - b.previous) - Math.abs(a.current - a.previous));
+};
@@ -0,0 +1,179 @@
+import { contentWords } from './textPreprocessing';
+import { cosineSimilarity, DUPLICATE_THRESHOLD } from './storyClustering';
+import { normalizeArticleUrl } from './articleIdentity';
+import type { NewsArticle } from './articleSchema';
+import type { HistoryEntry } from './historyApi';
+
+// A read counts half as much after this many days
+const HALF_LIFE_DAYS = 14;
+const DAY = 24 * 60 * 60 * 1000;
+
+// How much a candidate's category and its wording each count toward its score
+const CATEGORY_WEIGHT = 0.4;
+const TERM_WEIGHT = 0.6;
+
+// Trade-off between relevance (1) and variety (0) when picking recommendations
+const DIVERSITY_LAMBDA = 0.7;
+// Picking a second article of the same category costs as much as this much similarity
+const SAME_CATEGORY_PENALTY = 0.3;
+
+type TermVector = Map<string, number>;
+
+interface ProfileRead {
+  entry: HistoryEntry;
+  weight: number;
+  labels: string[];
+  terms: TermVector;
+}
+
+// What the user reads, weighted toward recent reads
+export interface ReadingProfile {
+  // Decayed share of reads per category, summing to 1
+  categories: Map<string, number>;
+  // Decayed term weights over everything read, L2-normalized
+  terms: TermVector;
+  reads: ProfileRead[];
+}
+
+export interface Recommendation {
+  article: NewsArticle;
+  score: number;
+  // e.g. 'Because you read "Fed holds rates steady"'
+  reason: string;
+  // The read the reason points to, if the recommendation came from one
+  basedOn: HistoryEntry | null;
+}
+
+const normalizeTitle = (title: string) => title.trim().toLowerCase().replace(/\s+/g, ' ');
+
+const labelsOf = (entry: Pick<HistoryEntry, 'category' | 'categories'>) =>
+  entry.categories?.length ? entry.categories : [entry.category];
+
+const normalized = (vector: TermVector): TermVector => {
+  const norm = Math.sqrt(Array.from(vector.values()).reduce((sum, weight) => sum + weight * weight, 0));
+  if (norm > 0) vector.forEach((weight, term) => vector.set(term, weight / norm));
+  return vector;
+};
+
+const termVector = (text: string): TermVector => {
+  const vector: TermVector = new Map();
+  contentWords(text).forEach(word => vector.set(word, (vector.get(word) ?? 0) + 1));
+  return normalized(vector);
+};
+
+const articleVector = (article: Pick<NewsArticle, 'title' | 'description'>) =>
+  termVector(`${article.title} ${article.description}`);
+
+export const buildProfile = (history: HistoryEntry[], now = Date.now()): ReadingProfile => {
+  const categories = new Map<string, number>();
+  const terms: TermVector = new Map();
+  let totalWeight = 0;
+
+  const reads = history.map(entry => {
+    const ageDays = Math.max(0, now - new Date(entry.read_at).getTime()) / DAY;
+    const weight = Math.pow(0.5, ageDays / HALF_LIFE_DAYS);
+    const labels = labelsOf(entry);
+    const vector = termVector(`${entry.title} ${entry.description ?? ''}`);
+
+    // A multi-label read splits its weight across its labels
+    labels.forEach(label => categories.set(label, (categories.get(label) ?? 0) + weight / labels.length));
+    vector.forEach((value, term) => terms.set(term, (terms.get(term) ?? 0) + value * weight));
+    totalWeight += weight;
+
+    return { entry, weight, labels, terms: vector };
+  });
+
+  if (totalWeight > 0) categories.forEach((weight, label) => categories.set(label, weight / totalWeight));
+  return { categories, terms: normalized(terms), reads };
+};
+
+// Categories the profile leans toward, strongest first
+export const topCategories = (profile: ReadingProfile): string[] =>
+  Array.from(profile.categories.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([category]) => category);
+
+// The read that best explains recommending an article: similar wording and a
+// shared category, weighted by how recent the read is
+const closestRead = (profile: ReadingProfile, labels: string[], vector: TermVector) => {
+  let best: { read: ProfileRead; strength: number } | null = null;
+  for (const read of profile.reads) {
+    const sharesCategory = read.labels.some(label => labels.includes(label));
+    const strength = read.weight * (cosineSimilarity(read.terms, vector) + (sharesCategory ? 0.2 : 0));
+    if (strength > 0 && (!best || strength > best.strength)) best = { read, strength };
+  }
+  return best;
+};
+
+// Pick `count` candidates for the profile. Articles already read are left out,
+// and each pick is penalized by its similarity to the ones before it, so one
+// story or category does not fill the list.
+export const recommendArticles = (
+  profile: ReadingProfile,
+  candidates: NewsArticle[],
+  count: number,
+  interests: string[] = []
+): Recommendation[] => {
+  // Reads recorded before articles had URLs can only be matched by title
+  const readUrls = new Set(profile.reads.flatMap(read => read.entry.url ? [read.entry.url] : []));
+  const readTitles = new Set(profile.reads.map(read => normalizeTitle(read.entry.title)));
+
+  const scored = candidates
+    .filter(article => {
+      const url = normalizeArticleUrl(article.url);
+      const title = normalizeTitle(article.title);
+      if (readUrls.has(url) || readTitles.has(title)) return false;
+      // The same article can come back from several candidate feeds
+      readUrls.add(url);
+      readTitles.add(title);
+      return true;
+    })
+    .map(article => {
+      const labels = article.categories.length > 0 ? article.categories : [article.category];
+      const vector = articleVector(article);
+      const categoryScore = Math.min(1, labels.reduce((sum, label) => sum + (profile.categories.get(label) ?? 0), 0));
+      // Interests stand in for history until there is some
+      const interestScore = profile.reads.length === 0 && labels.some(label => interests.includes(label)) ? 1 : 0;
+      const score = CATEGORY_WEIGHT * Math.max(categoryScore, interestScore) +
+        TERM_WEIGHT * cosineSimilarity(profile.terms, vector);
+      return { article, labels, vector, score };
+    });
+
+  const picked: typeof scored = [];
+  const remaining = [...scored];
+  while (picked.length < count && remaining.length > 0) {
+    let bestIndex = -1;
+    let bestValue = -Infinity;
+    remaining.forEach((candidate, index) => {
+      const redundancy = picked.reduce((max, chosen) => Math.max(
+        max,
+        cosineSimilarity(chosen.vector, candidate.vector) +
+          (chosen.article.category === candidate.article.category ? SAME_CATEGORY_PENALTY : 0)
+      ), 0);
+      const value = DIVERSITY_LAMBDA * candidate.score - (1 - DIVERSITY_LAMBDA) * redundancy;
+      if (value > bestValue) {
+        bestValue = value;
+        bestIndex = index;
+      }
+    });
+
+    const [candidate] = remaining.splice(bestIndex, 1);
+    // Another outlet's take on a story already picked adds nothing
+    if (picked.some(chosen => cosineSimilarity(chosen.vector, candidate.vector) >= DUPLICATE_THRESHOLD)) continue;
+    picked.push(candidate);
+  }
+
+  return picked.map(({ article, labels, vector, score }) => {
+    const closest = closestRead(profile, labels, vector);
+    if (closest) {
+      return { article, score, reason: `Because you read "${closest.read.entry.title}"`, basedOn: closest.read.entry };
+    }
+    const interest = labels.find(label => interests.includes(label));
+    return {
+      article,
+      score,
+      reason: interest ? `In your interests: ${interest}` : `Popular in ${article.category}`,
+      basedOn: null
+    };
+  });
+};
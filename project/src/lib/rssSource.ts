@@ -0,0 +1,136 @@
+import axios from 'axios';
+import { fetchFromNewsProxy, PLACEHOLDER_IMAGE_URL } from './newsApi';
+import { singlePage } from './newsSources';
+import { parseArticles, sourceArticleSchema } from './articleSchema';
+import type { DroppedArticles, NewsSource, SourceArticle } from './newsSources';
+
+const isSameOrigin = (url: string) => new URL(url, window.location.href).origin === window.location.origin;
+
+// Feeds rarely send CORS headers, so cross-origin feeds fall back to our news proxy
+export const fetchText = async (url: string): Promise<string> => {
+  const fetchDirect = async () => {
+    const response = await axios.get<string>(url, { timeout: 15000, responseType: 'text' });
+    return response.data;
+  };
+  if (isSameOrigin(url)) return fetchDirect();
+
+  try {
+    return await fetchDirect();
+  } catch {
+    const response = await fetchFromNewsProxy<string>('feed', { url }, 'text');
+    return response.data;
+  }
+};
+
+// Descriptions are often HTML; keep only the text
+const stripHtml = (html: string) => {
+  if (!html.includes('<')) return html.trim();
+  const parsed = new DOMParser().parseFromString(html, 'text/html');
+  return (parsed.body.textContent ?? '').replace(/\s+/g, ' ').trim();
+};
+
+// Match on local names so namespaced elements (content:encoded, media:content) are found
+const childElements = (parent: Element, localName: string) =>
+  Array.from(parent.children).filter(child => child.localName === localName);
+
+const childText = (parent: Element, ...localNames: string[]) => {
+  for (const localName of localNames) {
+    const text = childElements(parent, localName)
+      .map(element => element.textContent?.trim())
+      .find(value => value);
+    if (text) return text;
+  }
+  return '';
+};
+
+const firstImage = (item: Element, html: string) => {
+  const media = [...childElements(item, 'content'), ...childElements(item, 'thumbnail'), ...childElements(item, 'enclosure')]
+    .find(element => {
+      const type = element.getAttribute('type') ?? element.getAttribute('medium') ?? 'image';
+      return element.getAttribute('url') && type.startsWith('image');
+    });
+  if (media) return media.getAttribute('url')!;
+
+  return html.match(/<img[^>]+src=["']([^"']+)["']/i)?.[1] ?? PLACEHOLDER_IMAGE_URL;
+};
+
+// Undated items are taken as new; a date that does not parse fails validation
+const itemDate = (value: string) => value || new Date().toISOString();
+
+// Items as the feed describes them, checked against sourceArticleSchema after
+const parseRssItem = (item: Element, feedTitle: string): unknown => {
+  const body = childText(item, 'encoded');
+  const description = childText(item, 'description');
+  return {
+    title: stripHtml(childText(item, 'title')),
+    description: stripHtml(description),
+    content: stripHtml(body),
+    urlToImage: firstImage(item, body || description),
+    sourceCategory: null,
+    url: childText(item, 'link', 'guid'),
+    source: childText(item, 'source') || feedTitle,
+    publishedAt: itemDate(childText(item, 'pubDate', 'date'))
+  };
+};
+
+const parseAtomEntry = (entry: Element, feedTitle: string): unknown => {
+  const links = childElements(entry, 'link');
+  const link = links.find(element => (element.getAttribute('rel') ?? 'alternate') === 'alternate') ?? links[0];
+  const body = childText(entry, 'content');
+  const summary = childText(entry, 'summary');
+  return {
+    title: stripHtml(childText(entry, 'title')),
+    description: stripHtml(summary || body),
+    content: stripHtml(body),
+    urlToImage: firstImage(entry, body || summary),
+    sourceCategory: null,
+    url: link?.getAttribute('href') ?? childText(entry, 'id'),
+    source: feedTitle,
+    publishedAt: itemDate(childText(entry, 'published', 'updated'))
+  };
+};
+
+// Parse an RSS 2.0 or Atom document into articles, counting the items dropped
+// as malformed
+export const parseFeed = (
+  xml: string,
+  fallbackTitle: string
+): { articles: SourceArticle[]; dropped: DroppedArticles } => {
+  const parsed = new DOMParser().parseFromString(xml, 'application/xml');
+  if (parsed.getElementsByTagName('parsererror').length > 0) {
+    throw new Error(`${fallbackTitle} is not a valid RSS or Atom feed`);
+  }
+
+  const root = parsed.documentElement;
+  let items: unknown[];
+  if (root.localName === 'feed') {
+    const feedTitle = childText(root, 'title') || fallbackTitle;
+    items = childElements(root, 'entry').map(entry => parseAtomEntry(entry, feedTitle));
+  } else {
+    const channel = childElements(root, 'channel')[0] ?? root;
+    const feedTitle = childText(channel, 'title') || fallbackTitle;
+    // RSS 1.0 puts items next to the channel rather than inside it
+    items = [...childElements(channel, 'item'), ...childElements(root, 'item')]
+      .map(item => parseRssItem(item, feedTitle));
+  }
+
+  return parseArticles(items, sourceArticleSchema);
+};
+
+export const createRssSource = (url: string): NewsSource => {
+  if (!url) throw new Error('RSS sources need a feed URL, e.g. rss:https://example.com/feed.xml');
+
+  const name = isSameOrigin(url) ? url : new URL(url).hostname;
+  return {
+    id: `rss:${url}`,
+    name,
+    appliesQuery: false,
+    fetchArticles: async (_query, page) => {
+      const { articles, dropped } = parseFeed(await fetchText(url), name);
+      if (Object.keys(dropped).length > 0) {
+        console.warn(`Dropped malformed articles from ${name}:`, dropped);
+      }
+      return singlePage(articles, page, dropped);
+    }
+  };
+};
@@ -0,0 +1,98 @@
+import { contentWords } from './textPreprocessing';
+
+export interface ClusterableArticle {
+  title: string;
+  description: string;
+  url: string;
+  source: string;
+}
+
+// One story as covered by one or more outlets; the first article is the
+// earliest in feed order, so `id` stays put as later pages are appended
+export interface StoryCluster<T extends ClusterableArticle> {
+  id: string;
+  articles: T[];
+}
+
+// Cosine similarity above which two articles count as the same story. Rewritten
+// headlines for one event typically score 0.5-0.8; unrelated stories on the
+// same topic stay well under 0.3.
+export const DUPLICATE_THRESHOLD = 0.45;
+
+type TermVector = Map<string, number>;
+
+const termCounts = (text: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  contentWords(text).forEach(word => counts.set(word, (counts.get(word) ?? 0) + 1));
+  return counts;
+};
+
+// TF-IDF vectors over title + description, L2-normalized so a dot product is the cosine
+const tfidfVectors = (articles: ClusterableArticle[]): TermVector[] => {
+  const counts = articles.map(article => termCounts(`${article.title} ${article.description}`));
+
+  const documentFrequency = new Map<string, number>();
+  counts.forEach(terms => terms.forEach((_, term) => {
+    documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+  }));
+
+  return counts.map(terms => {
+    const vector: TermVector = new Map();
+    terms.forEach((count, term) => {
+      const idf = Math.log((1 + articles.length) / (1 + documentFrequency.get(term)!)) + 1;
+      vector.set(term, count * idf);
+    });
+
+    const norm = Math.sqrt(Array.from(vector.values()).reduce((sum, weight) => sum + weight * weight, 0));
+    if (norm > 0) vector.forEach((weight, term) => vector.set(term, weight / norm));
+    return vector;
+  });
+};
+
+export const cosineSimilarity = (a: TermVector, b: TermVector): number => {
+  const [smaller, larger] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  smaller.forEach((weight, term) => {
+    dot += weight * (larger.get(term) ?? 0);
+  });
+  return dot;
+};
+
+// Group near-duplicate articles. Each article joins the first cluster whose
+// lead it resembles closely enough; comparing against the lead only, rather
+// than any member, keeps loosely related stories from chaining together.
+export const clusterStories = <T extends ClusterableArticle>(
+  articles: T[],
+  threshold = DUPLICATE_THRESHOLD
+): StoryCluster<T>[] => {
+  const vectors = tfidfVectors(articles);
+  const clusters: Array<StoryCluster<T> & { lead: TermVector }> = [];
+
+  articles.forEach((article, index) => {
+    const vector = vectors[index];
+    const match = vector.size > 0
+      ? clusters.find(cluster => cosineSimilarity(cluster.lead, vector) >= threshold)
+      : undefined;
+
+    if (match) {
+      match.articles.push(article);
+    } else {
+      clusters.push({ id: article.url, articles: [article], lead: vector });
+    }
+  });
+
+  return clusters.map(({ id, articles: members }) => ({ id, articles: members }));
+};
+
+// Put the article from the user's most preferred outlet first, keeping feed
+// order otherwise
+export const orderByPreferredOutlet = <T extends ClusterableArticle>(
+  articles: T[],
+  preferredOutlets: string[]
+): T[] => {
+  const rank = (article: T) => {
+    const index = preferredOutlets.indexOf(article.source);
+    return index === -1 ? preferredOutlets.length : index;
+  };
+  return [...articles].sort((a, b) => rank(a) - rank(b));
+};
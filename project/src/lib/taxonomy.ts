@@ -0,0 +1,136 @@
+// A category group is either a weighted tier ('primary', 'secondary') or any
+// other named list (companies, leagues, ...) that counts at standard weight
+export type KeywordGroups = Record<string, string[]>;
+
+export interface TaxonomyCategory {
+  id?: string;
+  name: string;
+  color: string;
+  keywords: KeywordGroups;
+}
+
+export interface Taxonomy {
+  categories: TaxonomyCategory[];
+}
+
+// Returned instead of a category when the evidence is too weak to trust
+export const UNCATEGORIZED = 'Uncategorized';
+
+// Built-in taxonomy, used until the Supabase copy loads or if it cannot be read
+export const DEFAULT_TAXONOMY: Taxonomy = {
+  categories: [
+    {
+      name: 'Technology',
+      color: '#4f46e5',
+      keywords: {
+        primary: ['ai', 'technology', 'software', 'digital', 'cyber', 'tech', 'computer', 'internet', 'blockchain', 'robot', 'code'],
+        secondary: ['innovation', 'startup', 'device', 'app', 'mobile', 'data', 'cloud', 'programming', 'algorithm', 'developer'],
+        companies: ['google', 'apple', 'microsoft', 'amazon', 'meta', 'tesla', 'nvidia', 'intel', 'ibm', 'oracle'],
+        concepts: ['artificial intelligence', 'machine learning', 'virtual reality', 'augmented reality', 'cryptocurrency', '5g', 'quantum computing', 'cybersecurity'],
+        products: ['iphone', 'android', 'windows', 'linux', 'ios', 'web3', 'neural network']
+      }
+    },
+    {
+      name: 'Business',
+      color: '#06b6d4',
+      keywords: {
+        primary: ['business', 'market', 'economy', 'finance', 'trade', 'investment', 'stock', 'revenue', 'profit'],
+        secondary: ['startup', 'company', 'industry', 'corporate', 'enterprise', 'merger', 'acquisition', 'venture'],
+        financial: ['nasdaq', 'dow jones', 'sp500', 'wall street', 'ipo', 'earnings', 'shares', 'dividend', 'portfolio'],
+        concepts: ['quarterly report', 'market analysis', 'economic growth', 'fiscal policy', 'monetary policy', 'inflation', 'recession'],
+        sectors: ['banking', 'retail', 'manufacturing', 'real estate', 'energy', 'automotive']
+      }
+    },
+    {
+      name: 'Politics',
+      color: '#ec4899',
+      keywords: {
+        primary: ['politics', 'government', 'election', 'policy', 'congress', 'senate', 'democrat', 'republican', 'parliament'],
+        secondary: ['legislation', 'vote', 'campaign', 'political', 'president', 'administration', 'diplomatic', 'governor'],
+        international: ['foreign policy', 'international relations', 'diplomacy', 'treaty', 'sanctions', 'united nations', 'eu'],
+        concepts: ['democracy', 'constitution', 'bipartisan', 'legislative', 'judiciary', 'executive order'],
+        events: ['summit', 'referendum', 'inauguration', 'impeachment', 'coalition']
+      }
+    },
+    {
+      name: 'Sports',
+      color: '#22c55e',
+      keywords: {
+        primary: ['sports', 'game', 'team', 'player', 'championship', 'tournament', 'match', 'score', 'athlete'],
+        secondary: ['win', 'lose', 'victory', 'defeat', 'season', 'league', 'coach', 'stadium', 'record'],
+        leagues: ['nfl', 'nba', 'mlb', 'nhl', 'fifa', 'uefa', 'olympics', 'premier league', 'formula 1'],
+        concepts: ['world cup', 'super bowl', 'playoffs', 'final four', 'grand slam', 'medal', 'draft'],
+        roles: ['quarterback', 'striker', 'pitcher', 'defender', 'manager', 'referee']
+      }
+    },
+    {
+      name: 'Entertainment',
+      color: '#f59e0b',
+      keywords: {
+        primary: ['entertainment', 'movie', 'film', 'music', 'celebrity', 'actor', 'actress', 'star', 'director'],
+        secondary: ['hollywood', 'tv', 'show', 'series', 'album', 'concert', 'award', 'performance', 'cast'],
+        events: ['oscar', 'grammy', 'emmy', 'golden globe', 'festival', 'premiere', 'red carpet'],
+        concepts: ['box office', 'streaming', 'rating', 'review', 'debut', 'sequel', 'franchise'],
+        platforms: ['netflix', 'disney', 'hbo', 'spotify', 'amazon prime', 'hulu']
+      }
+    },
+    {
+      name: 'Health',
+      color: '#ef4444',
+      keywords: {
+        primary: ['health', 'medical', 'disease', 'treatment', 'patient', 'doctor', 'hospital', 'medicine', 'clinic'],
+        secondary: ['research', 'study', 'clinical', 'therapy', 'vaccine', 'drug', 'pharmaceutical', 'diagnosis'],
+        conditions: ['cancer', 'diabetes', 'heart disease', 'obesity', 'mental health', 'alzheimer', 'covid'],
+        concepts: ['public health', 'healthcare', 'medical research', 'clinical trial', 'prevention', 'wellness'],
+        specialists: ['surgeon', 'physician', 'nurse', 'pediatrician', 'psychiatrist']
+      }
+    },
+    {
+      name: 'Science',
+      color: '#8b5cf6',
+      keywords: {
+        primary: ['science', 'research', 'study', 'discovery', 'scientist', 'experiment', 'theory', 'evidence', 'laboratory'],
+        secondary: ['scientific', 'physics', 'chemistry', 'biology', 'astronomy', 'climate', 'evolution', 'genome'],
+        fields: ['quantum', 'molecular', 'genetic', 'environmental', 'neuroscience', 'biochemistry', 'astrophysics'],
+        concepts: ['peer review', 'scientific method', 'breakthrough', 'hypothesis', 'observation', 'data analysis'],
+        institutions: ['nasa', 'cern', 'university', 'laboratory', 'institute']
+      }
+    }
+  ]
+};
+
+// Columns to select from taxonomy_categories, keywords included
+export const TAXONOMY_COLUMNS = 'id, name, color, position, taxonomy_keywords(tier, term)';
+
+// A taxonomy_categories row as TAXONOMY_COLUMNS selects it
+export interface TaxonomyCategoryRow {
+  id: string;
+  name: string;
+  color: string;
+  position: number;
+  taxonomy_keywords: Array<{ tier: string; term: string }>;
+}
+
+const groupKeywords = (rows: TaxonomyCategoryRow['taxonomy_keywords']): KeywordGroups => {
+  return rows.reduce((groups: KeywordGroups, { tier, term }) => {
+    groups[tier] = [...(groups[tier] || []), term];
+    return groups;
+  }, {});
+};
+
+export const taxonomyFromRows = (rows: TaxonomyCategoryRow[]): Taxonomy => ({
+  categories: rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    color: row.color,
+    keywords: groupKeywords(row.taxonomy_keywords || [])
+  }))
+});
+
+export const getCategoryNames = (taxonomy: Taxonomy): string[] => {
+  return taxonomy.categories.map(category => category.name);
+};
+
+export const getCategoryColors = (taxonomy: Taxonomy): Record<string, string> => {
+  return Object.fromEntries(taxonomy.categories.map(category => [category.name, category.color]));
+};
@@ -0,0 +1,58 @@
+import { supabase } from './supabase';
+import { Taxonomy, TAXONOMY_COLUMNS, TaxonomyCategoryRow, taxonomyFromRows } from './taxonomy';
+
+export const fetchTaxonomy = async (): Promise<Taxonomy> => {
+  const { data, error } = await supabase
+    .from('taxonomy_categories')
+    .select(TAXONOMY_COLUMNS)
+    .order('position', { ascending: true });
+
+  if (error) throw error;
+
+  return taxonomyFromRows(data as TaxonomyCategoryRow[] || []);
+};
+
+export const createCategory = async (name: string, color: string, position: number) => {
+  const { error } = await supabase
+    .from('taxonomy_categories')
+    .insert({ name, color, position });
+  if (error) throw error;
+};
+
+export const updateCategory = async (id: string, changes: { name?: string; color?: string }) => {
+  const { error } = await supabase
+    .from('taxonomy_categories')
+    .update(changes)
+    .eq('id', id);
+  if (error) throw error;
+};
+
+export const deleteCategory = async (id: string) => {
+  const { error } = await supabase
+    .from('taxonomy_categories')
+    .delete()
+    .eq('id', id);
+  if (error) throw error;
+};
+
+export const addKeyword = async (categoryId: string, tier: string, term: string) => {
+  const { error } = await supabase
+    .from('taxonomy_keywords')
+    .insert({ category_id: categoryId, tier, term: term.trim().toLowerCase() });
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error(`"${term}" is already a ${tier} keyword`);
+    }
+    throw error;
+  }
+};
+
+export const removeKeyword = async (categoryId: string, tier: string, term: string) => {
+  const { error } = await supabase
+    .from('taxonomy_keywords')
+    .delete()
+    .eq('category_id', categoryId)
+    .eq('tier', tier)
+    .eq('term', term);
+  if (error) throw error;
+};
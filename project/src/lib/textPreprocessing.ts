@@ -0,0 +1,25 @@
+// Shared tokenization used by the keyword scorer and the trained model
+export const preprocessText = (text: string): string[] => {
+  return text.toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1);
+};
+
+// Function words that carry no topical signal
+export const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'been', 'before', 'being', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do', 'does',
+  'down', 'during', 'each', 'for', 'from', 'further', 'had', 'has', 'have', 'having', 'he', 'her', 'here',
+  'hers', 'him', 'his', 'how', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'me', 'more', 'most', 'my',
+  'new', 'no', 'nor', 'not', 'now', 'of', 'off', 'on', 'once', 'only', 'or', 'other', 'our', 'out', 'over',
+  'own', 'said', 'same', 'says', 'she', 'should', 'so', 'some', 'such', 'than', 'that', 'the', 'their',
+  'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to', 'too', 'under', 'until', 'up',
+  'us', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will',
+  'with', 'would', 'year', 'years', 'you', 'your'
+]);
+
+// Tokens worth learning or matching on: no stop words, no bare numbers
+export const contentWords = (text: string): string[] => {
+  return preprocessText(text).filter(word => !STOP_WORDS.has(word) && !/^\d+$/.test(word));
+};
@@ -1,8 +1,12 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import App from './App.tsx';
+import { warmUpClassifier } from './lib/classifierClient';
 import './index.css';
 
+// Start the classifier worker so its model loads while the first page renders
+warmUpClassifier();
+
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
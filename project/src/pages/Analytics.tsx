@@ -0,0 +1,340 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronLeft, Clock, Newspaper, Shuffle, TrendingUp } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { useAuthStore } from '../store/authStore';
+import { useTaxonomyStore } from '../store/taxonomyStore';
+import { getCategoryColors } from '../lib/taxonomy';
+import { fetchReadsBetween } from '../lib/historyApi';
+import {
+  categoryMixShift,
+  Granularity,
+  localDay,
+  parseLocalDay,
+  Read,
+  readingStreaks,
+  readsOverTime,
+  timeOfDayHeatmap,
+  topSources
+} from '../lib/readingAnalytics';
+
+type RangePreset = '7' | '30' | '90' | '365' | 'custom';
+
+const PRESETS: Array<{ value: RangePreset; label: string }> = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+  { value: '365', label: 'Last year' },
+  { value: 'custom', label: 'Custom' }
+];
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const DAY = 24 * 60 * 60 * 1000;
+const FALLBACK_COLOR = '#9ca3af';
+
+const daysAgo = (days: number) => localDay(new Date(Date.now() - days * DAY));
+
+// Whole days from `from` to `to`, both included
+const rangeLength = (from: string, to: string) =>
+  Math.round((parseLocalDay(to).getTime() - parseLocalDay(from).getTime()) / DAY) + 1;
+
+const shiftDay = (day: string, days: number) => {
+  const date = parseLocalDay(day);
+  date.setDate(date.getDate() + days);
+  return localDay(date);
+};
+
+const formatPercent = (share: number) => `${(share * 100).toFixed(0)}%`;
+
+const Analytics = () => {
+  const navigate = useNavigate();
+  const user = useAuthStore((state) => state.user);
+  const taxonomy = useTaxonomyStore((state) => state.taxonomy);
+  const categoryColors = useMemo(() => getCategoryColors(taxonomy), [taxonomy]);
+  const [preset, setPreset] = useState<RangePreset>('30');
+  const [customRange, setCustomRange] = useState({ from: daysAgo(29), to: localDay(new Date()) });
+  const [granularity, setGranularity] = useState<Granularity>('day');
+  const [reads, setReads] = useState<Read[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const range = useMemo(() => preset === 'custom'
+    ? customRange
+    : { from: daysAgo(Number(preset) - 1), to: localDay(new Date()) },
+  [preset, customRange]);
+  // The mix shift compares the range with the same number of days before it
+  const previousFrom = shiftDay(range.from, -rangeLength(range.from, range.to));
+
+  // Daily bars get unreadable past a couple of months
+  useEffect(() => {
+    setGranularity(rangeLength(range.from, range.to) > 62 ? 'week' : 'day');
+  }, [range]);
+
+  useEffect(() => {
+    if (!user || range.from > range.to) return;
+    let isCurrent = true;
+
+    setIsLoading(true);
+    setError(null);
+    fetchReadsBetween(user.id, previousFrom, range.to)
+      .then(result => {
+        if (isCurrent) setReads(result);
+      })
+      .catch((err: Error) => {
+        if (isCurrent) setError(`Failed to load reading analytics: ${err.message}`);
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [user, range, previousFrom]);
+
+  const stats = useMemo(() => {
+    const rangeStart = parseLocalDay(range.from).getTime();
+    const current = reads.filter(read => new Date(read.read_at).getTime() >= rangeStart);
+    const previous = reads.filter(read => new Date(read.read_at).getTime() < rangeStart);
+    const heatmap = timeOfDayHeatmap(current);
+
+    return {
+      current,
+      overTime: readsOverTime(current, range.from, range.to, granularity),
+      heatmap,
+      heatmapMax: Math.max(1, ...heatmap.flat()),
+      sources: topSources(current, 8),
+      streaks: readingStreaks(current),
+      shift: previous.length > 0 && current.length > 0 ? categoryMixShift(previous, current) : []
+    };
+  }, [reads, range, granularity]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <header className="flex justify-between items-center mb-8">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+          >
+            <ChevronLeft className="h-5 w-5" />
+            Back to Dashboard
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900">Reading Analytics</h1>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {PRESETS.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setPreset(value)}
+              className={`px-3 py-1 rounded-lg text-sm ${
+                preset === value ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+          {preset === 'custom' && (
+            <>
+              <input
+                type="date"
+                value={customRange.from}
+                max={customRange.to}
+                onChange={(e) => e.target.value && setCustomRange(current => ({ ...current, from: e.target.value }))}
+                className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+              />
+              <span className="text-gray-500">to</span>
+              <input
+                type="date"
+                value={customRange.to}
+                min={customRange.from}
+                onChange={(e) => e.target.value && setCustomRange(current => ({ ...current, to: e.target.value }))}
+                className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+              />
+            </>
+          )}
+        </div>
+      </header>
+
+      {error && (
+        <div className="mb-8 bg-red-50 text-red-700 p-4 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : (
+        <div className="space-y-8">
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {[
+              { label: 'Articles read', value: stats.current.length },
+              { label: 'Days with reading', value: stats.streaks.activeDays },
+              // Streaks count consecutive days with a read inside the range
+              { label: 'Current streak', value: `${stats.streaks.current} day${stats.streaks.current === 1 ? '' : 's'}` },
+              { label: 'Longest streak', value: `${stats.streaks.longest} day${stats.streaks.longest === 1 ? '' : 's'}` }
+            ].map(({ label, value }) => (
+              <div key={label} className="bg-white rounded-lg shadow-lg p-6">
+                <p className="text-sm text-gray-500">{label}</p>
+                <p className="text-2xl font-bold text-gray-900">{value}</p>
+              </div>
+            ))}
+          </div>
+
+          <section className="bg-white rounded-lg shadow-lg p-6">
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-2">
+                <TrendingUp className="h-6 w-6 text-indigo-600" />
+                <h2 className="text-xl font-semibold">Reads per {granularity}</h2>
+              </div>
+              <div className="flex gap-2">
+                {(['day', 'week'] as const).map(value => (
+                  <button
+                    key={value}
+                    onClick={() => setGranularity(value)}
+                    className={`px-3 py-1 rounded-lg text-sm ${
+                      granularity === value ? 'bg-indigo-600 text-white' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                    }`}
+                  >
+                    {value === 'day' ? 'Daily' : 'Weekly'}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {stats.current.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                No reads in this period.
+              </div>
+            ) : (
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={stats.overTime.periods}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis
+                      dataKey="period"
+                      tickFormatter={(day: string) => parseLocalDay(day).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                    />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip
+                      labelFormatter={(day: string) => granularity === 'week'
+                        ? `Week of ${parseLocalDay(day).toLocaleDateString()}`
+                        : parseLocalDay(day).toLocaleDateString()}
+                    />
+                    <Legend />
+                    {stats.overTime.categories.map(category => (
+                      <Bar
+                        key={category}
+                        dataKey={category}
+                        stackId="reads"
+                        fill={categoryColors[category] ?? FALLBACK_COLOR}
+                      />
+                    ))}
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </section>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+            <section className="bg-white rounded-lg shadow-lg p-6">
+              <div className="flex items-center gap-2 mb-6">
+                <Clock className="h-6 w-6 text-indigo-600" />
+                <h2 className="text-xl font-semibold">When you read</h2>
+              </div>
+              <div className="overflow-x-auto">
+                <table className="border-separate" style={{ borderSpacing: 2 }}>
+                  <thead>
+                    <tr>
+                      <th />
+                      {Array.from({ length: 24 }, (_, hour) => (
+                        <th key={hour} className="text-[10px] font-normal text-gray-400 w-4">
+                          {hour % 6 === 0 ? hour : ''}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stats.heatmap.map((hours, day) => (
+                      <tr key={WEEKDAYS[day]}>
+                        <td className="pr-2 text-xs text-gray-500">{WEEKDAYS[day]}</td>
+                        {hours.map((count, hour) => (
+                          <td
+                            key={hour}
+                            title={`${WEEKDAYS[day]} ${hour}:00 – ${count} read${count === 1 ? '' : 's'}`}
+                            className="w-4 h-4 rounded-sm"
+                            style={{
+                              backgroundColor: count > 0
+                                ? `rgba(79, 70, 229, ${0.15 + 0.85 * (count / stats.heatmapMax)})`
+                                : '#f3f4f6'
+                            }}
+                          />
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            <section className="bg-white rounded-lg shadow-lg p-6">
+              <div className="flex items-center gap-2 mb-6">
+                <Newspaper className="h-6 w-6 text-indigo-600" />
+                <h2 className="text-xl font-semibold">Top sources</h2>
+              </div>
+              {stats.sources.length === 0 ? (
+                <div className="text-center py-8 text-gray-500">
+                  No reads in this period.
+                </div>
+              ) : (
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={stats.sources} layout="vertical" margin={{ left: 40 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis type="number" allowDecimals={false} />
+                      <YAxis type="category" dataKey="source" width={100} tick={{ fontSize: 12 }} />
+                      <Tooltip />
+                      <Bar dataKey="reads" fill="#4f46e5" />
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              )}
+            </section>
+          </div>
+
+          <section className="bg-white rounded-lg shadow-lg p-6">
+            <div className="flex items-center gap-2 mb-2">
+              <Shuffle className="h-6 w-6 text-indigo-600" />
+              <h2 className="text-xl font-semibold">How your mix shifted</h2>
+            </div>
+            <p className="mb-6 text-sm text-gray-500">
+              Share of reads per category, compared with the {rangeLength(range.from, range.to)} days before{' '}
+              {parseLocalDay(range.from).toLocaleDateString()}.
+            </p>
+            {stats.shift.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">
+                Both periods need reads to compare them.
+              </div>
+            ) : (
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={stats.shift}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="category" />
+                    <YAxis tickFormatter={formatPercent} />
+                    <Tooltip formatter={(share: number) => formatPercent(share)} />
+                    <Legend />
+                    <Bar dataKey="previous" name="Before" fill="#c7d2fe" />
+                    <Bar dataKey="current" name="This period" fill="#4f46e5" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </section>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Analytics;
@@ -0,0 +1,410 @@
+import { useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowDown, ArrowUp, ChevronLeft, Download, FileUp, Layers } from 'lucide-react';
+import { classifyBatch } from '../lib/classifierClient';
+import type { ClassificationResult } from '../lib/newsClassifier';
+import { UNCATEGORIZED } from '../lib/taxonomy';
+import {
+  DatasetFormat,
+  DatasetRecord,
+  datasetColumns,
+  detectDatasetFormat,
+  parseDataset,
+  serializeCsv,
+  serializeJsonl
+} from '../lib/datasetFormats';
+import CategoryBadge from '../components/CategoryBadge';
+
+interface BulkRow {
+  row: number;
+  text: string;
+  record: DatasetRecord;
+  result: ClassificationResult;
+  runnerUp: RunnerUp | null;
+}
+
+interface RunnerUp {
+  category: string;
+  confidence: number;
+  // Uncategorized rows have no runner-up; this is their top prediction instead,
+  // which fell short of the confidence threshold
+  isBestGuess: boolean;
+}
+
+type SortKey = 'row' | 'category' | 'confidence' | 'runnerUp' | 'runnerUpConfidence';
+
+// Columns picked as the text to classify when a file has any of them
+const DEFAULT_TEXT_COLUMNS = ['title', 'headline', 'description', 'summary', 'content', 'text', 'body'];
+
+const SORT_COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: 'row', label: '#' },
+  { key: 'category', label: 'Top category' },
+  { key: 'confidence', label: 'Confidence' },
+  { key: 'runnerUp', label: 'Runner-up' },
+  { key: 'runnerUpConfidence', label: 'Runner-up confidence' }
+];
+
+const guessTextColumns = (columns: string[]) => {
+  const matches = columns.filter(column => DEFAULT_TEXT_COLUMNS.includes(column.toLowerCase()));
+  return matches.length > 0 ? matches : columns.slice(0, 1);
+};
+
+const sortValue = (row: BulkRow, key: SortKey): string | number => {
+  switch (key) {
+    case 'row':
+      return row.row;
+    case 'category':
+      return row.result.category;
+    case 'confidence':
+      return row.result.confidence;
+    case 'runnerUp':
+      return row.runnerUp?.category ?? '';
+    case 'runnerUpConfidence':
+      return row.runnerUp?.confidence ?? 0;
+  }
+};
+
+const runnerUpOf = ({ category, predictions }: ClassificationResult): RunnerUp | null => {
+  const prediction = category === UNCATEGORIZED ? predictions[0] : predictions[1];
+  return prediction
+    ? { category: prediction.category, confidence: prediction.confidence, isBestGuess: category === UNCATEGORIZED }
+    : null;
+};
+
+// Input columns plus the prediction, so exports can be joined back to the
+// source. The added columns are prefixed so they never replace an input column.
+const toExportRecord = ({ record, result, runnerUp }: BulkRow) => {
+  const runnerUpColumns = runnerUp?.isBestGuess ? null : runnerUp;
+  const bestGuess = runnerUp?.isBestGuess ? runnerUp : null;
+  return {
+    ...record,
+    predicted_category: result.category,
+    predicted_confidence: result.confidence,
+    predicted_runner_up: runnerUpColumns?.category ?? '',
+    predicted_runner_up_confidence: runnerUpColumns?.confidence ?? 0,
+    predicted_best_guess: bestGuess?.category ?? '',
+    predicted_best_guess_confidence: bestGuess?.confidence ?? 0,
+    predicted_labels: result.labels,
+    predicted_scores: result.predictions
+  };
+};
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const BulkClassify = () => {
+  const navigate = useNavigate();
+  const [input, setInput] = useState('');
+  const [format, setFormat] = useState<DatasetFormat>('csv');
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [selectedColumns, setSelectedColumns] = useState<string[] | null>(null);
+  const [rows, setRows] = useState<BulkRow[]>([]);
+  const [progress, setProgress] = useState<{ completed: number; total: number } | null>(null);
+  const [sortKey, setSortKey] = useState<SortKey>('row');
+  const [sortAscending, setSortAscending] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const { records, parseError } = useMemo(() => {
+    if (!input.trim()) return { records: [], parseError: null };
+    try {
+      return { records: parseDataset(input, format), parseError: null };
+    } catch (err) {
+      const error = err as Error;
+      return { records: [], parseError: error.message };
+    }
+  }, [input, format]);
+
+  const columns = useMemo(() => datasetColumns(records), [records]);
+  const textColumns = (selectedColumns ?? guessTextColumns(columns)).filter(column => columns.includes(column));
+  const isRunning = progress !== null;
+
+  const sortedRows = useMemo(() => {
+    return [...rows].sort((a, b) => {
+      const left = sortValue(a, sortKey);
+      const right = sortValue(b, sortKey);
+      const order = typeof left === 'number' && typeof right === 'number'
+        ? left - right
+        : String(left).localeCompare(String(right));
+      return sortAscending ? order : -order;
+    });
+  }, [rows, sortKey, sortAscending]);
+
+  const resetInput = (content: string, nextFormat: DatasetFormat, name: string | null) => {
+    setInput(content);
+    setFormat(nextFormat);
+    setFileName(name);
+    setSelectedColumns(null);
+    setRows([]);
+    setError(null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      resetInput(await file.text(), detectDatasetFormat(file.name), file.name);
+    } catch (err) {
+      const error = err as Error;
+      setError(`Failed to read ${file.name}: ${error.message}`);
+    }
+  };
+
+  const toggleColumn = (column: string) => {
+    setSelectedColumns(
+      textColumns.includes(column)
+        ? textColumns.filter(selected => selected !== column)
+        : columns.filter(candidate => candidate === column || textColumns.includes(candidate))
+    );
+  };
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortAscending(!sortAscending);
+    } else {
+      setSortKey(key);
+      // Highest confidence first is the useful default
+      setSortAscending(key !== 'confidence' && key !== 'runnerUpConfidence');
+    }
+  };
+
+  const classifyRecords = async () => {
+    if (records.length === 0 || textColumns.length === 0 || isRunning) return;
+
+    const texts = records.map(record =>
+      textColumns.map(column => record[column]?.trim()).filter(Boolean).join(' ')
+    );
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setProgress({ completed: 0, total: texts.length });
+    setRows([]);
+    setError(null);
+
+    try {
+      const results = await classifyBatch(texts, {
+        options: { multiLabel: true },
+        signal: controller.signal,
+        onProgress: (completed, total) => setProgress({ completed, total })
+      });
+
+      setRows(results.map((result, index) => ({
+        row: index + 1,
+        text: texts[index],
+        record: records[index],
+        result,
+        runnerUp: runnerUpOf(result)
+      })));
+    } catch (err) {
+      const error = err as Error;
+      if (error.name !== 'AbortError') {
+        setError(`Classification failed: ${error.message}`);
+      }
+    } finally {
+      controllerRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const exportResults = (exportFormat: DatasetFormat) => {
+    const baseName = fileName?.replace(/\.[^.]+$/, '') ?? 'articles';
+    const exportRecords = rows.map(toExportRecord);
+
+    if (exportFormat === 'csv') {
+      // CSV cells are flat, so the arrays are written as JSON
+      const csvRecords = exportRecords.map(record => ({
+        ...record,
+        predicted_confidence: String(record.predicted_confidence),
+        predicted_runner_up_confidence: String(record.predicted_runner_up_confidence),
+        predicted_best_guess_confidence: String(record.predicted_best_guess_confidence),
+        predicted_labels: JSON.stringify(record.predicted_labels),
+        predicted_scores: JSON.stringify(record.predicted_scores)
+      }));
+      downloadFile(serializeCsv(csvRecords), `${baseName}-classified.csv`, 'text/csv');
+    } else {
+      downloadFile(serializeJsonl(exportRecords), `${baseName}-classified.jsonl`, 'application/x-ndjson');
+    }
+  };
+
+  const renderSortHeader = ({ key, label }: { key: SortKey; label: string }) => (
+    <th key={key} className="py-2 pr-4 font-semibold whitespace-nowrap">
+      <button
+        onClick={() => handleSort(key)}
+        className="flex items-center gap-1 hover:text-gray-900"
+      >
+        {label}
+        {sortKey === key && (sortAscending
+          ? <ArrowUp className="h-3 w-3" />
+          : <ArrowDown className="h-3 w-3" />)}
+      </button>
+    </th>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <header className="flex justify-between items-center mb-8">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => navigate('/')}
+            className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+          >
+            <ChevronLeft className="h-5 w-5" />
+            Back to Home
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900">Bulk Classification</h1>
+        </div>
+      </header>
+
+      {(error || parseError) && (
+        <div className="mb-8 bg-red-50 text-red-700 p-4 rounded-lg">
+          {error ?? `Could not parse input: ${parseError}`}
+        </div>
+      )}
+
+      <section className="mb-8 bg-white rounded-lg shadow-lg p-6 space-y-4">
+        <div className="flex flex-wrap items-center gap-4">
+          <label className="flex items-center gap-2 px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 cursor-pointer">
+            <FileUp className="h-5 w-5" />
+            Upload CSV or JSONL
+            <input
+              type="file"
+              accept=".csv,.jsonl,.ndjson,.json,.txt"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </label>
+          {fileName && <span className="text-sm text-gray-600">{fileName}</span>}
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as DatasetFormat)}
+            className="px-3 py-2 border border-gray-300 rounded-lg"
+            aria-label="Input format"
+          >
+            <option value="csv">CSV</option>
+            <option value="jsonl">JSONL</option>
+          </select>
+        </div>
+
+        <textarea
+          value={input}
+          onChange={(e) => resetInput(e.target.value, format, null)}
+          placeholder={'Or paste rows here, e.g.\ntitle,description\n"Fed holds rates","Markets rally after the decision"'}
+          className="w-full h-40 p-4 font-mono text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+        />
+
+        {columns.length > 0 && (
+          <div>
+            <h2 className="text-sm font-semibold text-gray-500 uppercase mb-2">
+              Text columns ({records.length} rows)
+            </h2>
+            <div className="flex flex-wrap gap-2">
+              {columns.map(column => (
+                <label
+                  key={column}
+                  className="flex items-center gap-2 px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-full cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={textColumns.includes(column)}
+                    onChange={() => toggleColumn(column)}
+                  />
+                  {column}
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="flex gap-4">
+          <button
+            onClick={classifyRecords}
+            disabled={records.length === 0 || textColumns.length === 0 || isRunning}
+            className="flex-1 flex items-center justify-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <Layers className="h-5 w-5" />
+            {progress
+              ? `Classifying ${progress.completed} of ${progress.total}...`
+              : `Classify ${records.length} rows`}
+          </button>
+          {isRunning && (
+            <button
+              onClick={() => controllerRef.current?.abort()}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+
+        {progress && (
+          <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-indigo-600 transition-all"
+              style={{ width: `${(progress.completed / Math.max(progress.total, 1)) * 100}%` }}
+            />
+          </div>
+        )}
+      </section>
+
+      {rows.length > 0 && (
+        <section className="bg-white rounded-lg shadow-lg p-6">
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-semibold">Results</h2>
+            <div className="flex gap-2">
+              {(['csv', 'jsonl'] as const).map(exportFormat => (
+                <button
+                  key={exportFormat}
+                  onClick={() => exportResults(exportFormat)}
+                  className="flex items-center gap-2 px-3 py-1 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+                >
+                  <Download className="h-4 w-4" />
+                  Export {exportFormat.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-gray-500 border-b">
+                <tr>
+                  {renderSortHeader(SORT_COLUMNS[0])}
+                  <th className="py-2 pr-4 font-semibold">Text</th>
+                  {SORT_COLUMNS.slice(1).map(renderSortHeader)}
+                </tr>
+              </thead>
+              <tbody>
+                {sortedRows.map(({ row, text, result, runnerUp }) => (
+                  <tr key={row} className="border-b last:border-0 align-top">
+                    <td className="py-2 pr-4 text-gray-400">{row}</td>
+                    <td className="py-2 pr-4 text-gray-900 max-w-md">
+                      <p className="line-clamp-2">{text}</p>
+                    </td>
+                    <td className="py-2 pr-4">
+                      <CategoryBadge category={result.category} />
+                    </td>
+                    <td className="py-2 pr-4">{(result.confidence * 100).toFixed(1)}%</td>
+                    <td className="py-2 pr-4 text-gray-600">
+                      {runnerUp ? `${runnerUp.category}${runnerUp.isBestGuess ? ' (best guess)' : ''}` : '—'}
+                    </td>
+                    <td className="py-2 pr-4 text-gray-600">
+                      {runnerUp ? `${(runnerUp.confidence * 100).toFixed(1)}%` : '—'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+};
+
+export default BulkClassify;
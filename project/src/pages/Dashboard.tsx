@@ -1,40 +1,39 @@
 import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { History, ChevronLeft, BookOpen, LogOut } from 'lucide-react';
+import { History, ChevronLeft, BookOpen, LogOut, Tags, Flag, SlidersHorizontal } from 'lucide-react';
 import { useAuthStore } from '../store/authStore';
-import { supabase } from '../lib/supabase';
+import { useTaxonomyStore } from '../store/taxonomyStore';
+import { usePreferencesStore } from '../store/preferencesStore';
+import { getCategoryColors } from '../lib/taxonomy';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip } from 'recharts';
-import { fetchNewsArticles } from '../lib/newsApi';
-
-interface ArticleHistory {
-  id: string;
-  title: string;
-  category: string;
-  image_url: string;
-  description: string;
-  read_at: string;
-}
-
-interface RecommendedArticle {
-  title: string;
-  description: string;
-  urlToImage: string;
-  category: string;
-  url: string;
-  source: string;
-  publishedAt: string;
-}
-
-const COLORS = ['#4f46e5', '#7c3aed', '#2563eb', '#7c3aed', '#3b82f6'];
+import { fetchNewsArticles, NewsArticle } from '../lib/newsSources';
+import CategoryBadge from '../components/CategoryBadge';
+import CategoryFeedback from '../components/CategoryFeedback';
+import { fetchRecentHistory, HistoryEntry, recordArticleRead } from '../lib/historyApi';
+import { buildProfile, ReadingProfile, Recommendation, recommendArticles, topCategories } from '../lib/recommendations';
+import { isMutedArticle } from '../lib/preferences';
+
+// Used for history categories that are no longer in the taxonomy
+const FALLBACK_COLORS = ['#4f46e5', '#7c3aed', '#2563eb', '#7c3aed', '#3b82f6'];
+// Recommended from when the user has neither history nor interests
 const DEFAULT_CATEGORIES = ['Technology', 'Business', 'Science'];
+// Reads older than the last few hundred barely count after decay
+const PROFILE_HISTORY_LIMIT = 500;
+const HISTORY_SHOWN = 10;
+const CANDIDATE_CATEGORIES = 3;
+const RECOMMENDATION_COUNT = 5;
 
 const Dashboard = () => {
   const navigate = useNavigate();
   const user = useAuthStore((state) => state.user);
   const signOut = useAuthStore((state) => state.signOut);
-  const [history, setHistory] = useState<ArticleHistory[]>([]);
+  const taxonomy = useTaxonomyStore((state) => state.taxonomy);
+  const categoryColors = getCategoryColors(taxonomy);
+  const preferences = usePreferencesStore((state) => state.preferences);
+  const preferencesLoaded = usePreferencesStore((state) => state.isLoaded);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
   const [categoryStats, setCategoryStats] = useState<{ name: string; value: number }[]>([]);
-  const [recommendations, setRecommendations] = useState<RecommendedArticle[]>([]);
+  const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -47,50 +46,28 @@ const Dashboard = () => {
     }
   };
 
-  const fetchRecommendations = async (categories: string[]) => {
-    let allRecommendations: RecommendedArticle[] = [];
-    let attempts = 0;
-    const maxAttempts = 3;
-
-    while (allRecommendations.length < 3 && attempts < maxAttempts) {
-      try {
-        // Try each category in sequence until we have enough recommendations
-        for (const category of categories) {
-          if (allRecommendations.length >= 3) break;
-
-          const articles = await fetchNewsArticles(category);
-          const newRecommendations = articles
-            .filter(article => 
-              // Filter out articles already in recommendations or history
-              !allRecommendations.some(rec => rec.title === article.title) &&
-              !history.some(hist => hist.title === article.title)
-            )
-            .slice(0, 3 - allRecommendations.length);
-
-          allRecommendations = [...allRecommendations, ...newRecommendations];
-        }
-
-        // If we still don't have enough recommendations, try general news
-        if (allRecommendations.length < 3) {
-          const generalArticles = await fetchNewsArticles();
-          const remainingCount = 3 - allRecommendations.length;
-          const newRecommendations = generalArticles
-            .filter(article => 
-              !allRecommendations.some(rec => rec.title === article.title) &&
-              !history.some(hist => hist.title === article.title)
-            )
-            .slice(0, remainingCount);
-
-          allRecommendations = [...allRecommendations, ...newRecommendations];
-        }
-      } catch (error) {
-        console.error('Error fetching recommendations:', error);
-      }
-      
-      attempts++;
+  // Candidates come from the profile's top categories plus general headlines
+  const fetchRecommendations = async (profile: ReadingProfile): Promise<Recommendation[]> => {
+    let categories = [...topCategories(profile), ...preferences.preferredCategories]
+      .filter((category, index, all) => all.indexOf(category) === index && !preferences.mutedCategories.includes(category))
+      .slice(0, CANDIDATE_CATEGORIES);
+    if (categories.length === 0) {
+      // Use default categories if there is nothing to go on
+      categories = DEFAULT_CATEGORIES.filter(category => !preferences.mutedCategories.includes(category));
     }
 
-    return allRecommendations;
+    const feeds = await Promise.allSettled([
+      ...categories.map(category => fetchNewsArticles({ category })),
+      fetchNewsArticles()
+    ]);
+    feeds.forEach(feed => {
+      if (feed.status === 'rejected') console.error('Error fetching recommendations:', feed.reason);
+    });
+
+    const candidates = feeds
+      .flatMap(feed => feed.status === 'fulfilled' ? feed.value.articles : [])
+      .filter(article => !isMutedArticle(article, preferences));
+    return recommendArticles(profile, candidates, RECOMMENDATION_COUNT, preferences.preferredCategories);
   };
 
   const fetchUserHistory = async () => {
@@ -99,21 +76,16 @@ const Dashboard = () => {
     setError(null);
 
     try {
-      // Fetch user's reading history
-      const { data: historyData, error: historyError } = await supabase
-        .from('user_history')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('read_at', { ascending: false })
-        .limit(10);
-
-      if (historyError) throw historyError;
-
-      setHistory(historyData || []);
-
-      // Calculate category statistics
-      const categories = historyData?.reduce((acc: { [key: string]: number }, article) => {
-        acc[article.category] = (acc[article.category] || 0) + 1;
+      // The whole recent history feeds the profile; the list shows the latest reads
+      const historyData = await fetchRecentHistory(user.id, PROFILE_HISTORY_LIMIT);
+      setHistory(historyData.slice(0, HISTORY_SHOWN));
+
+      // Calculate category statistics, counting each article toward all of its labels
+      const categories = historyData.slice(0, HISTORY_SHOWN).reduce((acc: { [key: string]: number }, article) => {
+        const labels = article.categories?.length ? article.categories : [article.category];
+        labels.forEach(label => {
+          acc[label] = (acc[label] || 0) + 1;
+        });
         return acc;
       }, {});
 
@@ -124,22 +96,7 @@ const Dashboard = () => {
 
       setCategoryStats(categoryStatsData);
 
-      // Get recommendation categories
-      let recommendationCategories: string[];
-      if (categoryStatsData.length > 0) {
-        // Use top categories from user history
-        recommendationCategories = categoryStatsData
-          .sort((a, b) => b.value - a.value)
-          .map(cat => cat.name)
-          .slice(0, 3);
-      } else {
-        // Use default categories if no history
-        recommendationCategories = DEFAULT_CATEGORIES;
-      }
-
-      // Fetch and set recommendations
-      const recommendedArticles = await fetchRecommendations(recommendationCategories);
-      setRecommendations(recommendedArticles);
+      setRecommendations(await fetchRecommendations(buildProfile(historyData)));
 
     } catch (err) {
       const error = err as Error;
@@ -149,20 +106,14 @@ const Dashboard = () => {
     }
   };
 
+  // Recommendations depend on the preferences, so wait for them
   useEffect(() => {
-    fetchUserHistory();
-  }, [user]);
+    if (preferencesLoaded) fetchUserHistory();
+  }, [user, preferences, preferencesLoaded]);
 
-  const handleArticleClick = async (article: RecommendedArticle) => {
+  const handleArticleClick = async (article: NewsArticle) => {
     try {
-      await supabase.from('user_history').insert({
-        user_id: user?.id,
-        article_id: article.title,
-        category: article.category,
-        title: article.title,
-        image_url: article.urlToImage,
-        description: article.description
-      });
+      await recordArticleRead(article);
       
       window.open(article.url, '_blank');
       
@@ -187,13 +138,36 @@ const Dashboard = () => {
           </button>
           <h1 className="text-2xl font-bold text-gray-900">Your Dashboard</h1>
         </div>
-        <button
-          onClick={handleLogout}
-          className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
-        >
-          <LogOut className="h-5 w-5" />
-          Logout
-        </button>
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => navigate('/settings')}
+            className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+          >
+            <SlidersHorizontal className="h-5 w-5" />
+            Preferences
+          </button>
+          <button
+            onClick={() => navigate('/feedback')}
+            className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+          >
+            <Flag className="h-5 w-5" />
+            Corrections
+          </button>
+          <button
+            onClick={() => navigate('/admin/taxonomy')}
+            className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+          >
+            <Tags className="h-5 w-5" />
+            Categories
+          </button>
+          <button
+            onClick={handleLogout}
+            className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+          >
+            <LogOut className="h-5 w-5" />
+            Logout
+          </button>
+        </div>
       </header>
 
       {error && (
@@ -204,9 +178,17 @@ const Dashboard = () => {
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         <section className="bg-white rounded-lg shadow-lg p-6">
-          <div className="flex items-center gap-2 mb-6">
-            <History className="h-6 w-6 text-indigo-600" />
-            <h2 className="text-xl font-semibold">Reading History</h2>
+          <div className="flex items-center justify-between mb-6">
+            <div className="flex items-center gap-2">
+              <History className="h-6 w-6 text-indigo-600" />
+              <h2 className="text-xl font-semibold">Reading History</h2>
+            </div>
+            <button
+              onClick={() => navigate('/history')}
+              className="text-sm text-indigo-600 hover:text-indigo-800"
+            >
+              View all
+            </button>
           </div>
 
           {history.length === 0 ? (
@@ -218,7 +200,7 @@ const Dashboard = () => {
               {history.map((article) => (
                 <div key={article.id} className="flex gap-4 p-4 bg-gray-50 rounded-lg">
                   <img
-                    src={article.image_url}
+                    src={article.image_url ?? undefined}
                     alt={article.title}
                     className="w-24 h-24 object-cover rounded-lg"
                   />
@@ -229,6 +211,7 @@ const Dashboard = () => {
                     <h3 className="font-semibold text-gray-900">{article.title}</h3>
                     <p className="text-sm text-gray-600">
                       Read on {new Date(article.read_at).toLocaleDateString()}
+                      {article.read_count > 1 && ` · ${article.read_count} times`}
                     </p>
                   </div>
                 </div>
@@ -239,9 +222,17 @@ const Dashboard = () => {
 
         <div className="space-y-8">
           <section className="bg-white rounded-lg shadow-lg p-6">
-            <div className="flex items-center gap-2 mb-6">
-              <BookOpen className="h-6 w-6 text-indigo-600" />
-              <h2 className="text-xl font-semibold">Reading Analytics</h2>
+            <div className="flex items-center justify-between mb-6">
+              <div className="flex items-center gap-2">
+                <BookOpen className="h-6 w-6 text-indigo-600" />
+                <h2 className="text-xl font-semibold">Reading Analytics</h2>
+              </div>
+              <button
+                onClick={() => navigate('/analytics')}
+                className="text-sm text-indigo-600 hover:text-indigo-800"
+              >
+                Trends over time
+              </button>
             </div>
 
             {categoryStats.length === 0 ? (
@@ -262,7 +253,10 @@ const Dashboard = () => {
                       label
                     >
                       {categoryStats.map((entry, index) => (
-                        <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                        <Cell
+                          key={`cell-${index}`}
+                          fill={categoryColors[entry.name] ?? FALLBACK_COLORS[index % FALLBACK_COLORS.length]}
+                        />
                       ))}
                     </Pie>
                     <Tooltip />
@@ -284,9 +278,9 @@ const Dashboard = () => {
               </div>
             ) : (
               <div className="space-y-4">
-                {recommendations.map((article, index) => (
+                {recommendations.map(({ article, reason }) => (
                   <div
-                    key={index}
+                    key={article.url}
                     onClick={() => handleArticleClick(article)}
                     className="flex gap-4 p-4 bg-gray-50 rounded-lg hover:bg-gray-100 transition-colors cursor-pointer"
                   >
@@ -299,11 +293,22 @@ const Dashboard = () => {
                       }}
                     />
                     <div>
-                      <span className="inline-block px-2 py-1 text-sm font-semibold text-indigo-600 bg-indigo-50 rounded-full mb-2">
-                        {article.category}
-                      </span>
+                      <CategoryBadge
+                        category={article.category}
+                        confidence={article.confidence}
+                        sourceCategory={article.sourceCategory}
+                        className="mb-2"
+                      />
                       <h3 className="font-semibold text-gray-900">{article.title}</h3>
                       <p className="text-sm text-gray-600 line-clamp-2">{article.description}</p>
+                      <p className="mt-1 text-xs text-indigo-600 line-clamp-1">{reason}</p>
+                      <div className="mt-2">
+                        <CategoryFeedback
+                          text={`${article.title} ${article.description} ${article.content}`}
+                          predictedCategory={article.category}
+                          articleUrl={article.url}
+                        />
+                      </div>
                     </div>
                   </div>
                 ))}
@@ -0,0 +1,223 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ChevronLeft, Tag } from 'lucide-react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { useTaxonomyStore } from '../store/taxonomyStore';
+import { getCategoryColors } from '../lib/taxonomy';
+import { fetchNewsArticles, NewsArticle } from '../lib/newsSources';
+import { Entity, EntityType } from '../lib/entityExtraction';
+import CategoryBadge from '../components/CategoryBadge';
+import EntityTags from '../components/EntityTags';
+
+// How far back "recent" reaches; NewsAPI's developer plan searches about a month
+const RECENT_DAYS = 28;
+const DAY = 24 * 60 * 60 * 1000;
+
+const TYPE_LABELS: Record<EntityType, string> = {
+  person: 'Person',
+  organization: 'Organization',
+  place: 'Place'
+};
+
+// Monday of the week `date` falls in, as YYYY-MM-DD
+const weekStart = (date: string) => {
+  const day = new Date(date);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return day.toISOString().slice(0, 10);
+};
+
+const EntityPage = () => {
+  const navigate = useNavigate();
+  const { name = '' } = useParams();
+  const taxonomy = useTaxonomyStore((state) => state.taxonomy);
+  const categoryColors = useMemo(() => getCategoryColors(taxonomy), [taxonomy]);
+  const [articles, setArticles] = useState<NewsArticle[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    setIsLoading(true);
+    setError(null);
+    setArticles([]);
+
+    fetchNewsArticles(
+      {
+        q: `"${name}"`,
+        from: new Date(Date.now() - RECENT_DAYS * DAY).toISOString().slice(0, 10),
+        sortBy: 'publishedAt'
+      },
+      { pageSize: 100 }
+    )
+      .then(feed => {
+        if (isCurrent) setArticles(feed.articles);
+      })
+      .catch((err: Error) => {
+        if (isCurrent) setError(`Failed to load articles about ${name}: ${err.message}`);
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [name]);
+
+  // The type the articles most often give the entity, and who else they name
+  const { type, related } = useMemo(() => {
+    const typeCounts = new Map<EntityType, number>();
+    const coMentions = new Map<string, Entity>();
+    articles.forEach(article => article.entities.forEach(entity => {
+      if (entity.name.toLowerCase() === name.toLowerCase()) {
+        typeCounts.set(entity.type, (typeCounts.get(entity.type) ?? 0) + entity.mentions);
+        return;
+      }
+      const key = entity.name.toLowerCase();
+      const existing = coMentions.get(key);
+      coMentions.set(key, { ...entity, mentions: (existing?.mentions ?? 0) + 1 });
+    }));
+
+    const [mostCommon] = Array.from(typeCounts.entries()).sort((a, b) => b[1] - a[1]);
+    return {
+      type: mostCommon?.[0] ?? null,
+      related: Array.from(coMentions.values()).sort((a, b) => b.mentions - a.mentions)
+    };
+  }, [articles, name]);
+
+  // Articles per category for each week, oldest week first
+  const { weeklyMix, categories } = useMemo(() => {
+    const weeks = new Map<string, Record<string, number>>();
+    const seen = new Set<string>();
+    articles.forEach(article => {
+      const week = weekStart(article.publishedAt);
+      const counts = weeks.get(week) ?? {};
+      counts[article.category] = (counts[article.category] ?? 0) + 1;
+      weeks.set(week, counts);
+      seen.add(article.category);
+    });
+
+    return {
+      weeklyMix: Array.from(weeks.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([week, counts]) => ({ week, ...counts })),
+      categories: Array.from(seen)
+    };
+  }, [articles]);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <header className="flex justify-between items-center mb-8">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => navigate('/')}
+            className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+          >
+            <ChevronLeft className="h-5 w-5" />
+            Back to News
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900">{name}</h1>
+          {type && (
+            <span className="px-2 py-1 rounded-full text-xs bg-indigo-100 text-indigo-700">
+              {TYPE_LABELS[type]}
+            </span>
+          )}
+        </div>
+        {!isLoading && (
+          <span className="text-sm text-gray-600">
+            {articles.length} article{articles.length === 1 ? '' : 's'} in the last {RECENT_DAYS} days
+          </span>
+        )}
+      </header>
+
+      {error && (
+        <div className="mb-8 bg-red-50 text-red-700 p-4 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+          <section className="lg:col-span-2 space-y-4">
+            {articles.length === 0 && !error && (
+              <p className="text-gray-600">No recent articles mention {name}.</p>
+            )}
+            {articles.map(article => (
+              <article key={article.url} className="bg-white rounded-lg shadow-md p-4">
+                <div className="flex justify-between items-start mb-2">
+                  <CategoryBadge
+                    category={article.category}
+                    confidence={article.confidence}
+                    sourceCategory={article.sourceCategory}
+                  />
+                  <span className="text-sm text-gray-500">
+                    {article.source} · {new Date(article.publishedAt).toLocaleDateString()}
+                  </span>
+                </div>
+                <a
+                  href={article.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="block text-lg font-semibold text-gray-900 hover:text-indigo-700 mb-1"
+                >
+                  {article.title}
+                </a>
+                <p className="text-gray-600 mb-3">{article.description}</p>
+                <EntityTags
+                  entities={article.entities.filter(entity => entity.name.toLowerCase() !== name.toLowerCase())}
+                />
+              </article>
+            ))}
+          </section>
+
+          <aside className="space-y-8">
+            <section className="bg-white rounded-lg shadow-lg p-6">
+              <h2 className="text-lg font-semibold mb-4">Category mix by week</h2>
+              {weeklyMix.length > 0 ? (
+                <div className="h-64">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={weeklyMix}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis
+                        dataKey="week"
+                        tickFormatter={(week: string) => new Date(week).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                      />
+                      <YAxis allowDecimals={false} />
+                      <Tooltip labelFormatter={(week: string) => `Week of ${new Date(week).toLocaleDateString()}`} />
+                      <Legend />
+                      {categories.map(category => (
+                        <Bar
+                          key={category}
+                          dataKey={category}
+                          stackId="categories"
+                          fill={categoryColors[category] ?? '#9ca3af'}
+                        />
+                      ))}
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No articles to chart yet.</p>
+              )}
+            </section>
+
+            {related.length > 0 && (
+              <section className="bg-white rounded-lg shadow-lg p-6">
+                <div className="flex items-center gap-2 mb-4">
+                  <Tag className="h-5 w-5 text-indigo-600" />
+                  <h2 className="text-lg font-semibold">Often mentioned with</h2>
+                </div>
+                <EntityTags entities={related} limit={12} />
+              </section>
+            )}
+          </aside>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EntityPage;
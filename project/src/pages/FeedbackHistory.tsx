@@ -0,0 +1,155 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronLeft, Flag } from 'lucide-react';
+import { useAuthStore } from '../store/authStore';
+import { useTaxonomyStore } from '../store/taxonomyStore';
+import { ClassificationFeedback, fetchOwnFeedback } from '../lib/feedbackApi';
+import { classifyBatch } from '../lib/classifierClient';
+import type { FeedbackAdjustments } from '../lib/feedbackAdjustments';
+import classifierFeedback from '../lib/classifierFeedback.json';
+
+type CorrectionStatus = 'learned' | 'changed' | 'unchanged' | 'pending';
+
+// The adjustments built into the classifier, read here without loading it
+const adjustments: FeedbackAdjustments = classifierFeedback;
+
+const STATUS_STYLES: Record<CorrectionStatus, { label: string; className: string }> = {
+  learned: { label: 'Now classified correctly', className: 'bg-green-50 text-green-700' },
+  changed: { label: 'Prediction changed', className: 'bg-amber-50 text-amber-700' },
+  unchanged: { label: 'Prediction unchanged', className: 'bg-gray-100 text-gray-600' },
+  pending: { label: 'Waiting for next re-weighting', className: 'bg-indigo-50 text-indigo-700' }
+};
+
+const FeedbackHistory = () => {
+  const navigate = useNavigate();
+  const user = useAuthStore((state) => state.user);
+  const taxonomy = useTaxonomyStore((state) => state.taxonomy);
+  const [feedback, setFeedback] = useState<ClassificationFeedback[]>([]);
+  const [currentCategories, setCurrentCategories] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    setIsLoading(true);
+    setError(null);
+    fetchOwnFeedback(user.id)
+      .then(setFeedback)
+      .catch((err: Error) => setError(`Failed to load corrections: ${err.message}`))
+      .finally(() => setIsLoading(false));
+  }, [user]);
+
+  // Re-classify each corrected text with today's classifier
+  useEffect(() => {
+    const controller = new AbortController();
+    classifyBatch(feedback.map(item => item.text), { signal: controller.signal })
+      .then(results => setCurrentCategories(results.map(result => result.category)))
+      .catch((err: Error) => {
+        if (err.name !== 'AbortError') setError(`Failed to re-classify corrections: ${err.message}`);
+      });
+    return () => controller.abort();
+  }, [feedback, taxonomy]);
+
+  const rows = useMemo(() => {
+    // Wait for the worker rather than show a mix of old and new predictions
+    if (currentCategories.length !== feedback.length) return [];
+
+    return feedback.map((item, index) => {
+      const current = currentCategories[index];
+      const isPending = !adjustments.generatedAt ||
+        new Date(item.created_at) > new Date(adjustments.generatedAt);
+
+      let status: CorrectionStatus;
+      if (current === item.corrected_category) {
+        status = 'learned';
+      } else if (isPending) {
+        status = 'pending';
+      } else if (current !== item.predicted_category) {
+        status = 'changed';
+      } else {
+        status = 'unchanged';
+      }
+
+      return { ...item, current, status };
+    });
+  }, [feedback, currentCategories]);
+
+  const changedCount = rows.filter(row => row.current !== row.predicted_category).length;
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <header className="flex justify-between items-center mb-8">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+          >
+            <ChevronLeft className="h-5 w-5" />
+            Back to Dashboard
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900">Your Corrections</h1>
+        </div>
+      </header>
+
+      {error && (
+        <div className="mb-8 bg-red-50 text-red-700 p-4 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <section className="bg-white rounded-lg shadow-lg p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-2">
+            <Flag className="h-6 w-6 text-indigo-600" />
+            <h2 className="text-xl font-semibold">Classification Feedback</h2>
+          </div>
+          {rows.length > 0 && (
+            <span className="text-sm text-gray-600">
+              {changedCount} of {rows.length} corrections now change the prediction
+            </span>
+          )}
+        </div>
+
+        <p className="mb-6 text-sm text-gray-500">
+          {adjustments.generatedAt
+            ? `The classifier was last re-weighted on ${new Date(adjustments.generatedAt).toLocaleDateString()} from ${adjustments.corrections} corrections.`
+            : 'The classifier has not been re-weighted from feedback yet.'}
+        </p>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            No corrections yet. Use "Wrong category?" on an article or classification to send one.
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {rows.map(row => (
+              <div key={row.id} className="p-4 bg-gray-50 rounded-lg">
+                <div className="flex justify-between items-start gap-4 mb-2">
+                  <p className="text-gray-900 line-clamp-2">{row.text}</p>
+                  <span className={`shrink-0 px-2 py-1 text-xs font-semibold rounded-full ${STATUS_STYLES[row.status].className}`}>
+                    {STATUS_STYLES[row.status].label}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-600">
+                  Predicted <span className="font-semibold">{row.predicted_category}</span>
+                  {' → '}corrected to <span className="font-semibold">{row.corrected_category}</span>
+                  {' → '}now <span className="font-semibold">{row.current}</span>
+                </p>
+                <p className="text-xs text-gray-400 mt-1">
+                  {new Date(row.created_at).toLocaleDateString()}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default FeedbackHistory;
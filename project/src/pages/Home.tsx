@@ -1,85 +1,235 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
-import { Newspaper, Search, Brain, History } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Newspaper, Brain, History, Layers, Heart } from 'lucide-react';
 import { useAuthStore } from '../store/authStore';
-import { supabase } from '../lib/supabase';
-import { fetchNewsArticles } from '../lib/newsApi';
-import { classifyNews } from '../lib/newsClassifier';
+import { useTaxonomyStore } from '../store/taxonomyStore';
+import { useOutletStore } from '../store/outletStore';
+import { usePreferencesStore } from '../store/preferencesStore';
+import { getCategoryColors, getCategoryNames, UNCATEGORIZED } from '../lib/taxonomy';
+import {
+  classifyArticles,
+  classifyFullText,
+  DroppedArticles,
+  fetchNewsArticles,
+  getNewsSources,
+  mergeArticlePages,
+  NewsArticle,
+  NewsFeed,
+  NewsQuery,
+  queryFromSearchParams,
+  queryToSearchParams
+} from '../lib/newsSources';
+import type { ClassificationResult } from '../lib/newsClassifier';
+import { classifyText } from '../lib/classifierClient';
+import { NewsError, NewsFetchError } from '../lib/newsErrors';
+import { clusterStories, orderByPreferredOutlet } from '../lib/storyClustering';
+import { isMutedArticle, preferredFirst } from '../lib/preferences';
+import { recordArticleRead } from '../lib/historyApi';
+import { mergeDroppedArticles } from '../lib/articleSchema';
+import ClassificationExplanation from '../components/ClassificationExplanation';
+import CategoryFeedback from '../components/CategoryFeedback';
+import NewsErrorNotice from '../components/NewsErrorNotice';
+import NewsFilters from '../components/NewsFilters';
+import VirtualFeed from '../components/VirtualFeed';
+import StoryCard from '../components/StoryCard';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, RadialBarChart, RadialBar } from 'recharts';
 
-const NEWS_CATEGORIES = ['Business', 'Technology', 'Politics', 'Sports', 'Entertainment', 'Health', 'Science'];
-
-interface Article {
-  title: string;
-  description: string;
-  urlToImage: string;
-  category: string;
-  url: string;
-  source: string;
-  publishedAt: string;
-}
-
-interface ClassificationResult {
-  category: string;
-  confidence: number;
-  predictions: Array<{
-    category: string;
-    confidence: number;
-  }>;
-}
-
-const COLORS = {
-  Technology: '#4f46e5',
-  Business: '#06b6d4',
-  Politics: '#ec4899',
-  Sports: '#22c55e',
-  Entertainment: '#f59e0b',
-  Health: '#ef4444',
-  Science: '#8b5cf6'
-};
-
 const Home = () => {
   const navigate = useNavigate();
-  const user = useAuthStore((state) => state.user);
-  const [articles, setArticles] = useState<Article[]>([]);
-  const [searchCategory, setSearchCategory] = useState('');
+  const signOut = useAuthStore((state) => state.signOut);
+  const taxonomy = useTaxonomyStore((state) => state.taxonomy);
+  const newsCategories = useMemo(() => getCategoryNames(taxonomy), [taxonomy]);
+  const categoryColors = useMemo(() => getCategoryColors(taxonomy), [taxonomy]);
+  // A bad VITE_NEWS_SOURCES entry surfaces as a fetch error instead
+  const newsSources = useMemo(() => {
+    try {
+      return getNewsSources();
+    } catch {
+      return [];
+    }
+  }, []);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = useMemo(() => queryFromSearchParams(searchParams), [searchParams]);
+  const selectedSource = searchParams.get('feed') ?? '';
+  const [articles, setArticles] = useState<NewsArticle[]>([]);
+  const { preferences, isLoaded: preferencesLoaded, hasSaved: hasSavedPreferences } = usePreferencesStore();
+  const visibleArticles = useMemo(
+    () => articles.filter(article => !isMutedArticle(article, preferences, query.category)),
+    [articles, preferences, query.category]
+  );
+  // The same event reported by several outlets is shown as one story
+  const stories = useMemo(() => clusterStories(visibleArticles), [visibleArticles]);
+  const { preferredOutlets, preferOutlet, removePreferredOutlet } = useOutletStore();
+  const [nextPage, setNextPage] = useState<number | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [classificationText, setClassificationText] = useState('');
   const [classificationResult, setClassificationResult] = useState<ClassificationResult | null>(null);
+  const [classifiedText, setClassifiedText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [isClassifying, setIsClassifying] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Why the feed could not be loaded, when a news proxy request failed
+  const [newsError, setNewsError] = useState<NewsError | null>(null);
+  // When the shown feed fell back to cached articles, how old they are
+  const [fallbackCachedAt, setFallbackCachedAt] = useState<number | null>(null);
+  // Malformed articles the sources sent for this search, by reason
+  const [droppedArticles, setDroppedArticles] = useState<DroppedArticles>({});
+  const droppedCount = Object.values(droppedArticles).reduce((sum, count) => sum + count, 0);
+  const latestFetch = useRef(0);
+  // Aborted when a newer fetch replaces the feed, so its full-text upgrades stop
+  const fullTextController = useRef(new AbortController());
   const [selectedView, setSelectedView] = useState<'bar' | 'radial'>('bar');
 
+  // The articles on screen, for reclassifying them without refiring on every change
+  const articlesRef = useRef(articles);
+  useEffect(() => {
+    articlesRef.current = articles;
+  }, [articles]);
+
+  // Articles fetched before the taxonomy loaded were classified against the built-in one
   useEffect(() => {
-    fetchNews();
+    if (articlesRef.current.length === 0) return;
+
+    const controller = new AbortController();
+    classifyArticles(articlesRef.current, controller.signal)
+      .then(reclassified => {
+        // Pages loaded while this ran are already on the new taxonomy
+        const byUrl = new Map(reclassified.map(article => [article.url, article]));
+        setArticles(current => current.map(article => byUrl.get(article.url) ?? article));
+      })
+      .catch((err: Error) => {
+        if (err.name !== 'AbortError') setError(`Classification failed: ${err.message}`);
+      });
+    return () => controller.abort();
+  }, [taxonomy]);
+
+  // Articles are first classified on NewsAPI's truncated text; once their pages
+  // have been extracted, swap in the classification of the full text
+  const upgradeToFullText = useCallback(async (pageArticles: NewsArticle[], fetchId: number) => {
+    if (fetchId !== latestFetch.current) return;
+    try {
+      const reclassified = await classifyFullText(pageArticles, fullTextController.current.signal);
+      if (reclassified.length === 0 || fetchId !== latestFetch.current) return;
+      const byUrl = new Map(reclassified.map(article => [article.url, article]));
+      setArticles(current => current.map(article => byUrl.get(article.url) ?? article));
+    } catch (err) {
+      if ((err as Error).name !== 'AbortError') {
+        console.error('Failed to classify full article text:', err);
+      }
+    }
   }, []);
 
-  const fetchNews = async (category?: string) => {
+  // The default feed puts each page's articles in the user's interests first.
+  // Ranking page by page keeps stories already on screen from moving; the
+  // store is read directly since fetches outlive the render that started them.
+  const rankPage = useCallback((pageArticles: NewsArticle[], newsQuery: NewsQuery) =>
+    Object.keys(newsQuery).length === 0
+      ? preferredFirst(pageArticles, usePreferencesStore.getState().preferences)
+      : pageArticles,
+  []);
+
+  const fetchNews = useCallback(async (newsQuery: NewsQuery, sourceId: string) => {
     setIsLoading(true);
     setError(null);
+    setNewsError(null);
+    const fetchId = ++latestFetch.current;
+    fullTextController.current.abort();
+    fullTextController.current = new AbortController();
+    setNextPage(null);
+    setDroppedArticles({});
+
     try {
-      const newsArticles = await fetchNewsArticles(category);
-      setArticles(newsArticles);
+      const feed = await fetchNewsArticles(newsQuery, {
+        sourceIds: sourceId ? [sourceId] : undefined,
+        // A background refresh of an older search must not touch a newer one;
+        // pages loaded since are kept below the refreshed first page
+        onRefresh: (refreshed: NewsFeed) => {
+          if (fetchId !== latestFetch.current) return;
+          setArticles(current => mergeArticlePages(rankPage(refreshed.articles, newsQuery), current));
+          setFallbackCachedAt(refreshed.isFallback ? refreshed.cachedAt : null);
+          setDroppedArticles(current => mergeDroppedArticles(current, refreshed.dropped));
+          upgradeToFullText(refreshed.articles, fetchId);
+        }
+      });
+      if (fetchId !== latestFetch.current) return;
+      setArticles(rankPage(feed.articles, newsQuery));
+      setNextPage(feed.nextPage);
+      setFallbackCachedAt(feed.isFallback ? feed.cachedAt : null);
+      setDroppedArticles(current => mergeDroppedArticles(current, feed.dropped));
+      upgradeToFullText(feed.articles, fetchId);
     } catch (err) {
-      const error = err as Error;
-      setError(error.message);
+      if (fetchId !== latestFetch.current) return;
+      if (err instanceof NewsFetchError) {
+        setNewsError(err.detail);
+      } else {
+        const error = err as Error;
+        setError(error.message);
+      }
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [rankPage, upgradeToFullText]);
+
+  // Leaving the page stops the upgrades of the last feed
+  useEffect(() => () => fullTextController.current.abort(), []);
 
-  const handleArticleClick = async (article: Article) => {
+  // The URL holds the search, so shared links and back/forward refetch it
+  useEffect(() => {
+    fetchNews(query, selectedSource);
+  }, [fetchNews, query, selectedSource]);
+
+  const loadMore = useCallback(async () => {
+    if (nextPage === null) return;
+
+    const fetchId = latestFetch.current;
+    setIsLoadingMore(true);
     try {
-      const { error: supabaseError } = await supabase.from('user_history').insert({
-        user_id: user?.id,
-        article_id: article.title,
-        category: article.category,
-        title: article.title,
-        image_url: article.urlToImage,
-        description: article.description
+      const feed = await fetchNewsArticles(query, {
+        page: nextPage,
+        sourceIds: selectedSource ? [selectedSource] : undefined
       });
+      if (fetchId !== latestFetch.current) return;
+      setArticles(current => mergeArticlePages(current, rankPage(feed.articles, query)));
+      setNextPage(feed.nextPage);
+      setDroppedArticles(current => mergeDroppedArticles(current, feed.dropped));
+      upgradeToFullText(feed.articles, fetchId);
+    } catch (err) {
+      // A page of an earlier search must not stop the current one
+      if (fetchId !== latestFetch.current) return;
+      if (err instanceof NewsFetchError) {
+        setNewsError(err.detail);
+      } else {
+        const error = err as Error;
+        setError(`Failed to load more news: ${error.message}`);
+      }
+      // Stop scrolling from retrying in a loop; a new search starts over
+      setNextPage(null);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextPage, query, selectedSource, rankPage, upgradeToFullText]);
+
+  const handleSearch = (newsQuery: NewsQuery, sourceId: string) => {
+    const params = queryToSearchParams(newsQuery);
+    if (sourceId) params.set('feed', sourceId);
+    setSearchParams(params);
+  };
+
+  const retryNews = useCallback(() => {
+    fetchNews(query, selectedSource);
+  }, [fetchNews, query, selectedSource]);
+
+  const handleSignInAgain = async () => {
+    try {
+      await signOut();
+    } finally {
+      navigate('/login');
+    }
+  };
 
-      if (supabaseError) throw supabaseError;
+  const handleArticleClick = async (article: NewsArticle) => {
+    try {
+      await recordArticleRead(article);
       
       window.open(article.url, '_blank');
     } catch (err) {
@@ -94,8 +244,9 @@ const Home = () => {
     setIsClassifying(true);
     setError(null);
     try {
-      const result = classifyNews(classificationText);
+      const result = await classifyText(classificationText);
       setClassificationResult(result);
+      setClassifiedText(classificationText);
     } catch (err) {
       const error = err as Error;
       setError(`Classification failed: ${error.message}`);
@@ -109,7 +260,8 @@ const Home = () => {
 
     const data = classificationResult.predictions.map(pred => ({
       ...pred,
-      fill: COLORS[pred.category as keyof typeof COLORS]
+      confidence: pred.confidence * 100,
+      fill: categoryColors[pred.category]
     }));
 
     if (selectedView === 'bar') {
@@ -220,39 +372,27 @@ const Home = () => {
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
         <section className="space-y-6">
-          <div className="flex gap-4">
-            <div className="flex-1 relative">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
-              <input
-                type="text"
-                placeholder="Search by category..."
-                value={searchCategory}
-                onChange={(e) => setSearchCategory(e.target.value)}
-                className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
-              />
-            </div>
-            <button
-              onClick={() => fetchNews(searchCategory)}
-              className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700"
-            >
-              Search
-            </button>
-          </div>
+          <NewsFilters
+            key={searchParams.toString()}
+            query={query}
+            categories={newsCategories}
+            sources={newsSources}
+            selectedSource={selectedSource}
+            onSearch={handleSearch}
+          />
 
-          <div className="flex gap-2 flex-wrap">
-            {NEWS_CATEGORIES.map((category) => (
+          {preferencesLoaded && !hasSavedPreferences && (
+            <div className="flex justify-between items-center bg-indigo-50 text-indigo-800 p-4 rounded-lg">
+              <span>Pick your interests to see them first in your feed.</span>
               <button
-                key={category}
-                onClick={() => {
-                  setSearchCategory(category);
-                  fetchNews(category);
-                }}
-                className="px-3 py-1 bg-indigo-100 text-indigo-700 rounded-full hover:bg-indigo-200"
+                onClick={() => navigate('/onboarding')}
+                className="flex items-center gap-1 px-3 py-1 rounded-lg text-sm bg-indigo-600 text-white hover:bg-indigo-700"
               >
-                {category}
+                <Heart className="h-4 w-4" />
+                Choose interests
               </button>
-            ))}
-          </div>
+            </div>
+          )}
 
           {error && (
             <div className="bg-red-50 text-red-700 p-4 rounded-lg">
@@ -260,45 +400,54 @@ const Home = () => {
             </div>
           )}
 
+          {newsError && (
+            <NewsErrorNotice
+              error={newsError}
+              onRetry={retryNews}
+              onSignIn={handleSignInAgain}
+              onBrowseHeadlines={() => handleSearch(
+                { q: query.q, category: query.category, sources: query.sources, country: query.country },
+                selectedSource
+              )}
+            />
+          )}
+
+          {fallbackCachedAt !== null && !error && (
+            <div className="bg-amber-50 text-amber-800 p-4 rounded-lg">
+              Showing cached news from {new Date(fallbackCachedAt).toLocaleString()}. The news sources could not be reached.
+            </div>
+          )}
+
+          {droppedCount > 0 && !isLoading && (
+            <p
+              className="text-sm text-gray-500"
+              title={Object.entries(droppedArticles).map(([reason, count]) => `${reason} (${count})`).join('\n')}
+            >
+              {droppedCount} malformed article{droppedCount === 1 ? '' : 's'} skipped
+            </p>
+          )}
+
           {isLoading ? (
             <div className="flex justify-center items-center py-12">
               <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
             </div>
           ) : (
-            <div className="grid gap-6">
-              {articles.map((article, index) => (
-                <article
-                  key={index}
-                  className="bg-white rounded-lg shadow-md overflow-hidden hover:shadow-lg transition-shadow cursor-pointer"
-                  onClick={() => handleArticleClick(article)}
-                >
-                  <img
-                    src={article.urlToImage}
-                    alt={article.title}
-                    className="w-full h-48 object-cover"
-                    onError={(e) => {
-                      e.currentTarget.src = 'https://images.unsplash.com/photo-1504711434969-e33886168f5c?auto=format&fit=crop&w=800';
-                    }}
-                  />
-                  <div className="p-4">
-                    <div className="flex justify-between items-start mb-2">
-                      <span className="inline-block px-2 py-1 text-sm font-semibold text-indigo-600 bg-indigo-50 rounded-full">
-                        {article.category}
-                      </span>
-                      <span className="text-sm text-gray-500">{article.source}</span>
-                    </div>
-                    <h2 className="text-xl font-semibold text-gray-900 mb-2">{article.title}</h2>
-                    <p className="text-gray-600 mb-4">{article.description}</p>
-                    <div className="flex justify-between items-center">
-                      <span className="text-sm text-gray-500">
-                        {new Date(article.publishedAt).toLocaleDateString()}
-                      </span>
-                      <span className="text-indigo-600 hover:text-indigo-800">Read more →</span>
-                    </div>
-                  </div>
-                </article>
-              ))}
-            </div>
+            <VirtualFeed
+              items={stories}
+              getKey={(story) => story.id}
+              hasMore={nextPage !== null}
+              isLoadingMore={isLoadingMore}
+              onLoadMore={loadMore}
+              renderItem={(story) => (
+                <StoryCard
+                  articles={orderByPreferredOutlet(story.articles, preferredOutlets)}
+                  preferredOutlets={preferredOutlets}
+                  onOpen={handleArticleClick}
+                  onPreferOutlet={preferOutlet}
+                  onRemovePreferredOutlet={removePreferredOutlet}
+                />
+              )}
+            />
           )}
         </section>
 
@@ -307,6 +456,13 @@ const Home = () => {
             <div className="flex items-center gap-2">
               <Brain className="h-6 w-6 text-indigo-600" />
               <h2 className="text-xl font-semibold">News Classification</h2>
+              <button
+                onClick={() => navigate('/classify/bulk')}
+                className="ml-2 flex items-center gap-1 px-3 py-1 rounded-lg text-sm bg-gray-100 text-gray-600 hover:bg-gray-200"
+              >
+                <Layers className="h-4 w-4" />
+                Bulk mode
+              </button>
             </div>
             {classificationResult && (
               <div className="flex gap-2">
@@ -361,20 +517,51 @@ const Home = () => {
 
           {classificationResult && (
             <div className="mt-6 space-y-6">
-              <div className="p-4 bg-indigo-50 rounded-lg">
-                <h3 className="font-semibold text-indigo-900 mb-2">Classification Result:</h3>
-                <p className="text-indigo-800 text-lg font-semibold">
-                  Category: {classificationResult.category}
-                </p>
-                <p className="text-indigo-800">
-                  Confidence: {classificationResult.confidence.toFixed(1)}%
-                </p>
-              </div>
+              {classificationResult.category === UNCATEGORIZED ? (
+                <div className="p-4 bg-amber-50 rounded-lg">
+                  <h3 className="font-semibold text-amber-900 mb-2">Classification Result:</h3>
+                  <p className="text-amber-800 text-lg font-semibold">
+                    Uncategorized (low confidence)
+                  </p>
+                  <p className="text-amber-800">
+                    Best guess: {classificationResult.predictions[0].category} at{' '}
+                    {(classificationResult.confidence * 100).toFixed(1)}%
+                  </p>
+                </div>
+              ) : (
+                <div className="p-4 bg-indigo-50 rounded-lg">
+                  <h3 className="font-semibold text-indigo-900 mb-2">Classification Result:</h3>
+                  <p className="text-indigo-800 text-lg font-semibold">
+                    Category: {classificationResult.category}
+                  </p>
+                  <p className="text-indigo-800">
+                    Confidence: {(classificationResult.confidence * 100).toFixed(1)}%
+                  </p>
+                </div>
+              )}
+
+              <CategoryFeedback
+                key={classifiedText}
+                text={classifiedText}
+                predictedCategory={classificationResult.category}
+              />
 
               <div>
                 <h3 className="font-semibold text-gray-900 mb-4">Category Distribution:</h3>
                 {renderConfidenceChart()}
               </div>
+
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-4">
+                  {classificationResult.source === 'model' ? 'Keyword evidence:' : 'Why this category:'}
+                </h3>
+                <ClassificationExplanation
+                  text={classifiedText}
+                  explanations={classificationResult.explanations}
+                  colors={categoryColors}
+                  source={classificationResult.source}
+                />
+              </div>
             </div>
           )}
         </section>
@@ -28,10 +28,11 @@ const Login = () => {
 
       if (isSignUp) {
         await signUp(email, password);
+        navigate('/onboarding');
       } else {
         await signIn(email, password);
+        navigate('/');
       }
-      navigate('/');
     } catch (err) {
       setError(err instanceof Error ? err.message : 'An error occurred');
     } finally {
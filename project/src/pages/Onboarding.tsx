@@ -0,0 +1,93 @@
+import { useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Newspaper } from 'lucide-react';
+import { useAuthStore } from '../store/authStore';
+import { useTaxonomyStore } from '../store/taxonomyStore';
+import { usePreferencesStore } from '../store/preferencesStore';
+import { getCategoryColors, getCategoryNames } from '../lib/taxonomy';
+import CategoryPicker from '../components/CategoryPicker';
+
+const Onboarding = () => {
+  const navigate = useNavigate();
+  const user = useAuthStore((state) => state.user);
+  const taxonomy = useTaxonomyStore((state) => state.taxonomy);
+  const { preferences, savePreferences } = usePreferencesStore();
+  const categories = useMemo(() => getCategoryNames(taxonomy), [taxonomy]);
+  const categoryColors = useMemo(() => getCategoryColors(taxonomy), [taxonomy]);
+  const [interests, setInterests] = useState<string[]>(preferences.preferredCategories);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleInterest = (category: string) => {
+    setInterests(current => current.includes(category)
+      ? current.filter(name => name !== category)
+      : [...current, category]);
+  };
+
+  // Skipping saves too, so the prompt on Home goes away
+  const finish = async (preferredCategories: string[]) => {
+    if (!user) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await savePreferences(user.id, { ...preferences, preferredCategories });
+      navigate('/');
+    } catch (err) {
+      const error = err as Error;
+      setError(`Failed to save your interests: ${error.message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+      <div className="max-w-2xl w-full space-y-8">
+        <div className="text-center">
+          <Newspaper className="mx-auto h-12 w-12 text-indigo-600" />
+          <h2 className="mt-6 text-3xl font-extrabold text-gray-900">
+            What do you like to read about?
+          </h2>
+          <p className="mt-2 text-sm text-gray-600">
+            Pick a few topics. Your feed shows them first, and recommendations start from them until you have a reading history.
+          </p>
+        </div>
+
+        {error && (
+          <div className="rounded-md bg-red-50 p-4">
+            <div className="text-sm text-red-700">{error}</div>
+          </div>
+        )}
+
+        <div className="bg-white rounded-lg shadow-lg p-6">
+          <CategoryPicker
+            categories={categories}
+            selected={interests}
+            colors={categoryColors}
+            onToggle={toggleInterest}
+            disabled={preferences.mutedCategories}
+          />
+        </div>
+
+        <div className="flex justify-between items-center">
+          <button
+            onClick={() => finish(preferences.preferredCategories)}
+            disabled={isSaving}
+            className="text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+          >
+            Skip for now
+          </button>
+          <button
+            onClick={() => finish(interests)}
+            disabled={isSaving || interests.length === 0}
+            className="px-6 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Continue'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Onboarding;
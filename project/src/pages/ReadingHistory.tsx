@@ -0,0 +1,307 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, History, Search, Trash2 } from 'lucide-react';
+import { useAuthStore } from '../store/authStore';
+import { useTaxonomyStore } from '../store/taxonomyStore';
+import { getCategoryNames } from '../lib/taxonomy';
+import { deleteHistoryEntries, fetchHistoryPage, HistoryEntry, HistoryFilters } from '../lib/historyApi';
+
+const PAGE_SIZE = 20;
+
+const ReadingHistory = () => {
+  const navigate = useNavigate();
+  const user = useAuthStore((state) => state.user);
+  const taxonomy = useTaxonomyStore((state) => state.taxonomy);
+  const [filters, setFilters] = useState<HistoryFilters>({});
+  const [searchInput, setSearchInput] = useState('');
+  const [page, setPage] = useState(0);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [reloadCount, setReloadCount] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  useEffect(() => {
+    if (!user) return;
+    let isCurrent = true;
+
+    setIsLoading(true);
+    setError(null);
+    fetchHistoryPage(user.id, filters, page, PAGE_SIZE)
+      .then(result => {
+        if (!isCurrent) return;
+        setEntries(result.entries);
+        setTotal(result.total);
+      })
+      .catch((err: Error) => {
+        if (isCurrent) setError(`Failed to load reading history: ${err.message}`);
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false);
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [user, filters, page, reloadCount]);
+
+  // Selections only apply to the page they were made on
+  useEffect(() => {
+    setSelected(new Set());
+  }, [filters, page]);
+
+  const updateFilters = (changes: HistoryFilters) => {
+    setFilters(current => ({ ...current, ...changes }));
+    setPage(0);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateFilters({ search: searchInput });
+  };
+
+  const clearFilters = () => {
+    setSearchInput('');
+    setFilters({});
+    setPage(0);
+  };
+
+  const toggleEntry = (id: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = entries.length > 0 && entries.every(entry => selected.has(entry.id));
+
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(entries.map(entry => entry.id)));
+  };
+
+  const handleDelete = async () => {
+    if (!user || selected.size === 0) return;
+    const count = selected.size;
+    if (!window.confirm(`Delete ${count} article${count === 1 ? '' : 's'} from your reading history? This also removes them from your statistics and recommendations.`)) return;
+
+    setIsDeleting(true);
+    setError(null);
+    try {
+      await deleteHistoryEntries(user.id, Array.from(selected));
+      setSelected(new Set());
+      // Emptying the last page moves to the new last one; PostgREST rejects a
+      // range past the end rather than returning no rows
+      const lastPage = Math.max(0, Math.ceil((total - count) / PAGE_SIZE) - 1);
+      setPage(current => Math.min(current, lastPage));
+      setReloadCount(current => current + 1);
+    } catch (err) {
+      const error = err as Error;
+      setError(`Failed to delete history: ${error.message}`);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const hasFilters = Boolean(filters.search || filters.category || filters.from || filters.to);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <header className="flex justify-between items-center mb-8">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+          >
+            <ChevronLeft className="h-5 w-5" />
+            Back to Dashboard
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900">Reading History</h1>
+        </div>
+      </header>
+
+      {error && (
+        <div className="mb-8 bg-red-50 text-red-700 p-4 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <section className="bg-white rounded-lg shadow-lg p-6">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-2">
+            <History className="h-6 w-6 text-indigo-600" />
+            <h2 className="text-xl font-semibold">Everything You've Read</h2>
+          </div>
+          <span className="text-sm text-gray-600">
+            {total} article{total === 1 ? '' : 's'}{hasFilters ? ' match' : ''}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-end gap-4 mb-6">
+          <form onSubmit={handleSearch} className="flex-1 min-w-[16rem]">
+            <label className="block text-sm text-gray-600 mb-1">Search</label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+              <input
+                type="search"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                placeholder="Title or description"
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+              />
+            </div>
+          </form>
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">Category</label>
+            <select
+              value={filters.category ?? ''}
+              onChange={(e) => updateFilters({ category: e.target.value || undefined })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            >
+              <option value="">All categories</option>
+              {getCategoryNames(taxonomy).map(name => (
+                <option key={name} value={name}>{name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">From</label>
+            <input
+              type="date"
+              value={filters.from ?? ''}
+              max={filters.to}
+              onChange={(e) => updateFilters({ from: e.target.value || undefined })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm text-gray-600 mb-1">To</label>
+            <input
+              type="date"
+              value={filters.to ?? ''}
+              min={filters.from}
+              onChange={(e) => updateFilters({ to: e.target.value || undefined })}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+          </div>
+          {hasFilters && (
+            <button
+              onClick={clearFilters}
+              className="px-3 py-2 text-gray-600 hover:text-gray-900"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between mb-4">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={allSelected}
+              onChange={toggleAll}
+              disabled={entries.length === 0}
+              className="rounded text-indigo-600 focus:ring-indigo-500"
+            />
+            Select all on this page
+          </label>
+          <button
+            onClick={handleDelete}
+            disabled={selected.size === 0 || isDeleting}
+            className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Trash2 className="h-4 w-4" />
+            {isDeleting ? 'Deleting...' : `Delete selected (${selected.size})`}
+          </button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center items-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <div className="text-center py-8 text-gray-500">
+            {hasFilters
+              ? 'No articles in your history match these filters.'
+              : 'No reading history yet. Start reading articles to see them here!'}
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {entries.map(entry => (
+              <label
+                key={entry.id}
+                className={`flex gap-4 p-4 rounded-lg cursor-pointer ${selected.has(entry.id) ? 'bg-indigo-50' : 'bg-gray-50 hover:bg-gray-100'}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(entry.id)}
+                  onChange={() => toggleEntry(entry.id)}
+                  className="mt-1 rounded text-indigo-600 focus:ring-indigo-500"
+                />
+                {entry.image_url && (
+                  <img
+                    src={entry.image_url}
+                    alt={entry.title}
+                    className="w-20 h-20 object-cover rounded-lg"
+                  />
+                )}
+                <div className="min-w-0">
+                  <div className="flex flex-wrap gap-2 mb-1">
+                    {(entry.categories?.length ? entry.categories : [entry.category]).map(label => (
+                      <span key={label} className="px-2 py-1 text-xs font-semibold text-indigo-600 bg-indigo-50 rounded-full">
+                        {label}
+                      </span>
+                    ))}
+                  </div>
+                  <h3 className="font-semibold text-gray-900">{entry.title}</h3>
+                  {entry.description && (
+                    <p className="text-sm text-gray-600 line-clamp-2">{entry.description}</p>
+                  )}
+                  <p className="text-xs text-gray-400 mt-1">
+                    {entry.read_count > 1
+                      ? `Read ${entry.read_count} times, first ${new Date(entry.first_read_at).toLocaleString()}, last ${new Date(entry.read_at).toLocaleString()}`
+                      : `Read ${new Date(entry.read_at).toLocaleString()}`}
+                    {entry.source && ` · ${entry.source}`}
+                  </p>
+                </div>
+              </label>
+            ))}
+          </div>
+        )}
+
+        {total > PAGE_SIZE && (
+          <div className="flex justify-between items-center mt-6">
+            <button
+              onClick={() => setPage(current => current - 1)}
+              disabled={page === 0 || isLoading}
+              className="flex items-center gap-1 px-3 py-2 text-gray-600 hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <ChevronLeft className="h-4 w-4" />
+              Newer
+            </button>
+            <span className="text-sm text-gray-600">
+              Page {page + 1} of {pageCount}
+            </span>
+            <button
+              onClick={() => setPage(current => current + 1)}
+              disabled={page + 1 >= pageCount || isLoading}
+              className="flex items-center gap-1 px-3 py-2 text-gray-600 hover:text-gray-900 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Older
+              <ChevronRight className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ReadingHistory;
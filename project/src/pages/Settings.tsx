@@ -0,0 +1,185 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronLeft, EyeOff, Heart, X } from 'lucide-react';
+import { useAuthStore } from '../store/authStore';
+import { useTaxonomyStore } from '../store/taxonomyStore';
+import { usePreferencesStore } from '../store/preferencesStore';
+import { getCategoryColors, getCategoryNames } from '../lib/taxonomy';
+import { UserPreferences } from '../lib/preferences';
+import CategoryPicker from '../components/CategoryPicker';
+
+const Settings = () => {
+  const navigate = useNavigate();
+  const user = useAuthStore((state) => state.user);
+  const taxonomy = useTaxonomyStore((state) => state.taxonomy);
+  const { preferences, isLoaded, savePreferences } = usePreferencesStore();
+  const categories = useMemo(() => getCategoryNames(taxonomy), [taxonomy]);
+  const categoryColors = useMemo(() => getCategoryColors(taxonomy), [taxonomy]);
+  const [draft, setDraft] = useState<UserPreferences>(preferences);
+  const [newSource, setNewSource] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start editing from the stored preferences once they arrive
+  useEffect(() => {
+    if (isLoaded) setDraft(preferences);
+  }, [isLoaded, preferences]);
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  const togglePreferred = (category: string) => {
+    setDraft(current => ({ ...current, preferredCategories: toggle(current.preferredCategories, category) }));
+  };
+
+  // A category is either an interest or muted, never both
+  const toggleMuted = (category: string) => {
+    setDraft(current => ({
+      ...current,
+      mutedCategories: toggle(current.mutedCategories, category),
+      preferredCategories: current.preferredCategories.filter(name => name !== category)
+    }));
+  };
+
+  const addMutedSource = (e: React.FormEvent) => {
+    e.preventDefault();
+    const source = newSource.trim();
+    if (!source) return;
+    setDraft(current => current.mutedSources.some(name => name.toLowerCase() === source.toLowerCase())
+      ? current
+      : { ...current, mutedSources: [...current.mutedSources, source] });
+    setNewSource('');
+  };
+
+  const removeMutedSource = (source: string) => {
+    setDraft(current => ({ ...current, mutedSources: current.mutedSources.filter(name => name !== source) }));
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    setIsSaving(true);
+    setError(null);
+    try {
+      await savePreferences(user.id, draft);
+      setSavedAt(new Date());
+    } catch (err) {
+      const error = err as Error;
+      setError(`Failed to save preferences: ${error.message}`);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(preferences);
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <header className="flex justify-between items-center mb-8">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+          >
+            <ChevronLeft className="h-5 w-5" />
+            Back to Dashboard
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900">Preferences</h1>
+        </div>
+        <div className="flex items-center gap-4">
+          {savedAt && !isDirty && (
+            <span className="text-sm text-green-700">Saved at {savedAt.toLocaleTimeString()}</span>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={!isDirty || isSaving}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isSaving ? 'Saving...' : 'Save changes'}
+          </button>
+        </div>
+      </header>
+
+      {error && (
+        <div className="mb-8 bg-red-50 text-red-700 p-4 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-8">
+        <section className="bg-white rounded-lg shadow-lg p-6">
+          <div className="flex items-center gap-2 mb-2">
+            <Heart className="h-6 w-6 text-indigo-600" />
+            <h2 className="text-xl font-semibold">Interests</h2>
+          </div>
+          <p className="mb-4 text-sm text-gray-500">
+            Shown first in your default feed, and used for recommendations until you have a reading history.
+          </p>
+          <CategoryPicker
+            categories={categories}
+            selected={draft.preferredCategories}
+            colors={categoryColors}
+            onToggle={togglePreferred}
+            disabled={draft.mutedCategories}
+          />
+        </section>
+
+        <section className="bg-white rounded-lg shadow-lg p-6">
+          <div className="flex items-center gap-2 mb-2">
+            <EyeOff className="h-6 w-6 text-indigo-600" />
+            <h2 className="text-xl font-semibold">Muted</h2>
+          </div>
+          <p className="mb-4 text-sm text-gray-500">
+            Articles in muted categories or from muted sources are left out of your feed and recommendations. Searching a muted category still shows it.
+          </p>
+
+          <h3 className="font-semibold text-gray-900 mb-2">Categories</h3>
+          <CategoryPicker
+            categories={categories}
+            selected={draft.mutedCategories}
+            colors={categoryColors}
+            onToggle={toggleMuted}
+          />
+
+          <h3 className="font-semibold text-gray-900 mt-6 mb-2">Sources</h3>
+          <form onSubmit={addMutedSource} className="flex gap-2 mb-4">
+            <input
+              type="text"
+              value={newSource}
+              onChange={(e) => setNewSource(e.target.value)}
+              placeholder="Outlet name, e.g. BBC News"
+              className="flex-1 max-w-sm px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
+            />
+            <button
+              type="submit"
+              disabled={!newSource.trim()}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 disabled:opacity-50"
+            >
+              Mute
+            </button>
+          </form>
+          {draft.mutedSources.length === 0 ? (
+            <p className="text-sm text-gray-500">No muted sources.</p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {draft.mutedSources.map(source => (
+                <span key={source} className="flex items-center gap-1 px-3 py-1 rounded-full text-sm bg-gray-100 text-gray-700">
+                  {source}
+                  <button
+                    onClick={() => removeMutedSource(source)}
+                    title={`Unmute ${source}`}
+                    className="text-gray-400 hover:text-gray-700"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
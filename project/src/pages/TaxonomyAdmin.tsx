@@ -0,0 +1,274 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronLeft, Plus, Tags, Trash2, X } from 'lucide-react';
+import { useAuthStore } from '../store/authStore';
+import { useTaxonomyStore } from '../store/taxonomyStore';
+import { TaxonomyCategory } from '../lib/taxonomy';
+import {
+  addKeyword,
+  createCategory,
+  deleteCategory,
+  removeKeyword,
+  updateCategory
+} from '../lib/taxonomyApi';
+
+const DEFAULT_TIERS = ['primary', 'secondary'];
+
+interface KeywordDraft {
+  tier: string;
+  term: string;
+}
+
+const EMPTY_DRAFT: KeywordDraft = { tier: 'primary', term: '' };
+
+const TaxonomyAdmin = () => {
+  const navigate = useNavigate();
+  const user = useAuthStore((state) => state.user);
+  const taxonomy = useTaxonomyStore((state) => state.taxonomy);
+  const loadTaxonomy = useTaxonomyStore((state) => state.loadTaxonomy);
+  const classifierStatus = useTaxonomyStore((state) => state.classifierStatus);
+  const [newCategoryName, setNewCategoryName] = useState('');
+  const [newCategoryColor, setNewCategoryColor] = useState('#6b7280');
+  const [keywordDrafts, setKeywordDrafts] = useState<Record<string, KeywordDraft>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isAdmin = user?.app_metadata?.role === 'admin';
+
+  // Run a taxonomy change, then reload so the classifier and every page pick
+  // it up. Resolves to whether the change was saved.
+  const runChange = async (change: () => Promise<void>): Promise<boolean> => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await change();
+      await loadTaxonomy();
+      return true;
+    } catch (err) {
+      const error = err as Error;
+      setError(`Failed to update taxonomy: ${error.message}`);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCreateCategory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newCategoryName.trim();
+    if (!name) return;
+
+    if (taxonomy.categories.some(category => category.name.toLowerCase() === name.toLowerCase())) {
+      setError(`Category "${name}" already exists`);
+      return;
+    }
+
+    if (await runChange(() => createCategory(name, newCategoryColor, taxonomy.categories.length))) {
+      setNewCategoryName('');
+    }
+  };
+
+  const handleDeleteCategory = async (category: TaxonomyCategory) => {
+    if (!category.id) return;
+    if (!window.confirm(`Delete "${category.name}" and all of its keywords?`)) return;
+    await runChange(() => deleteCategory(category.id!));
+  };
+
+  const handleAddKeyword = async (category: TaxonomyCategory) => {
+    const draft = keywordDrafts[category.name];
+    if (!category.id || !draft?.term.trim() || !draft.tier.trim()) return;
+
+    if (await runChange(() => addKeyword(category.id!, draft.tier.trim().toLowerCase(), draft.term))) {
+      setKeywordDrafts(drafts => ({ ...drafts, [category.name]: { ...draft, term: '' } }));
+    }
+  };
+
+  const updateDraft = (category: string, changes: Partial<KeywordDraft>) => {
+    setKeywordDrafts(drafts => ({
+      ...drafts,
+      [category]: { ...EMPTY_DRAFT, ...drafts[category], ...changes }
+    }));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-8">
+      <header className="flex justify-between items-center mb-8">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={() => navigate('/dashboard')}
+            className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+          >
+            <ChevronLeft className="h-5 w-5" />
+            Back to Dashboard
+          </button>
+          <h1 className="text-2xl font-bold text-gray-900">Category Taxonomy</h1>
+        </div>
+      </header>
+
+      {!isAdmin && (
+        <div className="mb-8 bg-amber-50 text-amber-800 p-4 rounded-lg">
+          You can view the taxonomy, but only admins can change it.
+        </div>
+      )}
+
+      {classifierStatus?.modelLoaded && !classifierStatus.modelInUse && (
+        <div className="mb-8 bg-amber-50 text-amber-800 p-4 rounded-lg">
+          The trained model only knows the categories it was trained on, and these no longer match. Articles are
+          classified by keywords alone until the model is retrained with <code>npm run train:classifier</code>.
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-8 bg-red-50 text-red-700 p-4 rounded-lg">
+          {error}
+        </div>
+      )}
+
+      {isAdmin && (
+        <form
+          onSubmit={handleCreateCategory}
+          className="mb-8 bg-white rounded-lg shadow-lg p-6 flex flex-wrap items-center gap-4"
+        >
+          <input
+            type="text"
+            placeholder="New category name, e.g. Climate"
+            value={newCategoryName}
+            onChange={(e) => setNewCategoryName(e.target.value)}
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+          <input
+            type="color"
+            value={newCategoryColor}
+            onChange={(e) => setNewCategoryColor(e.target.value)}
+            className="h-10 w-16 rounded cursor-pointer"
+            aria-label="Category color"
+          />
+          <button
+            type="submit"
+            disabled={!newCategoryName.trim() || isSaving}
+            className="flex items-center gap-2 px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:bg-gray-400 disabled:cursor-not-allowed"
+          >
+            <Plus className="h-5 w-5" />
+            Add Category
+          </button>
+          {classifierStatus?.modelInUse && (
+            <p className="w-full text-sm text-gray-500">
+              Adding or deleting a category turns the trained model off until it is retrained. Keywords
+              classify articles in the meantime.
+            </p>
+          )}
+        </form>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {taxonomy.categories.map((category) => {
+          const tiers = Array.from(new Set([...DEFAULT_TIERS, ...Object.keys(category.keywords)]));
+          const draft = keywordDrafts[category.name] ?? EMPTY_DRAFT;
+          const canEdit = isAdmin && !!category.id;
+
+          return (
+            <section key={category.name} className="bg-white rounded-lg shadow-lg p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-3">
+                  <Tags className="h-6 w-6" style={{ color: category.color }} />
+                  <h2 className="text-xl font-semibold">{category.name}</h2>
+                  {canEdit && (
+                    <input
+                      key={category.color}
+                      type="color"
+                      defaultValue={category.color}
+                      onBlur={(e) => {
+                        const color = e.target.value;
+                        if (color !== category.color) {
+                          runChange(() => updateCategory(category.id!, { color }));
+                        }
+                      }}
+                      className="h-8 w-12 rounded cursor-pointer"
+                      aria-label={`${category.name} color`}
+                    />
+                  )}
+                </div>
+                {canEdit && (
+                  <button
+                    onClick={() => handleDeleteCategory(category)}
+                    disabled={isSaving}
+                    className="text-red-600 hover:text-red-800 disabled:text-gray-400"
+                    aria-label={`Delete ${category.name}`}
+                  >
+                    <Trash2 className="h-5 w-5" />
+                  </button>
+                )}
+              </div>
+
+              <div className="space-y-3">
+                {Object.entries(category.keywords).map(([tier, terms]) => (
+                  <div key={tier}>
+                    <h3 className="text-sm font-semibold text-gray-500 uppercase mb-1">{tier}</h3>
+                    <div className="flex flex-wrap gap-2">
+                      {terms.map(term => (
+                        <span
+                          key={term}
+                          className="flex items-center gap-1 px-2 py-1 text-sm bg-gray-100 text-gray-700 rounded-full"
+                        >
+                          {term}
+                          {canEdit && (
+                            <button
+                              onClick={() => runChange(() => removeKeyword(category.id!, tier, term))}
+                              disabled={isSaving}
+                              className="text-gray-400 hover:text-red-600"
+                              aria-label={`Remove ${term}`}
+                            >
+                              <X className="h-3 w-3" />
+                            </button>
+                          )}
+                        </span>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {canEdit && (
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    handleAddKeyword(category);
+                  }}
+                  className="mt-4 flex gap-2"
+                >
+                  <input
+                    type="text"
+                    list={`tiers-${category.name}`}
+                    value={draft.tier}
+                    onChange={(e) => updateDraft(category.name, { tier: e.target.value })}
+                    className="w-32 px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                    aria-label="Keyword tier"
+                  />
+                  <datalist id={`tiers-${category.name}`}>
+                    {tiers.map(tier => <option key={tier} value={tier} />)}
+                  </datalist>
+                  <input
+                    type="text"
+                    placeholder="Add keyword or phrase"
+                    value={draft.term}
+                    onChange={(e) => updateDraft(category.name, { term: e.target.value })}
+                    className="flex-1 px-3 py-1 border border-gray-300 rounded-lg text-sm"
+                  />
+                  <button
+                    type="submit"
+                    disabled={!draft.term.trim() || isSaving}
+                    className="px-3 py-1 bg-indigo-600 text-white rounded-lg text-sm hover:bg-indigo-700 disabled:bg-gray-400"
+                  >
+                    Add
+                  </button>
+                </form>
+              )}
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default TaxonomyAdmin;
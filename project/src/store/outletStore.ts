@@ -0,0 +1,25 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+
+interface OutletState {
+  // Outlet names, most preferred first
+  preferredOutlets: string[];
+  preferOutlet: (outlet: string) => void;
+  removePreferredOutlet: (outlet: string) => void;
+}
+
+// Kept in localStorage so the choice survives reloads without a round trip
+export const useOutletStore = create<OutletState>()(
+  persist(
+    (set) => ({
+      preferredOutlets: [],
+      preferOutlet: (outlet) => set((state) => ({
+        preferredOutlets: [outlet, ...state.preferredOutlets.filter(name => name !== outlet)]
+      })),
+      removePreferredOutlet: (outlet) => set((state) => ({
+        preferredOutlets: state.preferredOutlets.filter(name => name !== outlet)
+      }))
+    }),
+    { name: 'preferred-outlets' }
+  )
+);
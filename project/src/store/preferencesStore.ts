@@ -0,0 +1,34 @@
+import { create } from 'zustand';
+import { fetchPreferences, savePreferences as storePreferences } from '../lib/preferencesApi';
+import { EMPTY_PREFERENCES, UserPreferences } from '../lib/preferences';
+
+interface PreferencesState {
+  preferences: UserPreferences;
+  // False until loaded, and while the user has never saved preferences
+  hasSaved: boolean;
+  isLoaded: boolean;
+  loadPreferences: (userId: string) => Promise<void>;
+  savePreferences: (userId: string, preferences: UserPreferences) => Promise<void>;
+  resetPreferences: () => void;
+}
+
+export const usePreferencesStore = create<PreferencesState>((set) => ({
+  preferences: EMPTY_PREFERENCES,
+  hasSaved: false,
+  isLoaded: false,
+  loadPreferences: async (userId) => {
+    try {
+      const preferences = await fetchPreferences(userId);
+      set({ preferences: preferences ?? EMPTY_PREFERENCES, hasSaved: preferences !== null, isLoaded: true });
+    } catch (error) {
+      // Without them the feed is just unpersonalized
+      console.error('Failed to load preferences:', error);
+      set({ preferences: EMPTY_PREFERENCES, hasSaved: false, isLoaded: true });
+    }
+  },
+  savePreferences: async (userId, preferences) => {
+    await storePreferences(userId, preferences);
+    set({ preferences, hasSaved: true });
+  },
+  resetPreferences: () => set({ preferences: EMPTY_PREFERENCES, hasSaved: false, isLoaded: false })
+}));
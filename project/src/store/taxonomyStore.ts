@@ -0,0 +1,40 @@
+import { create } from 'zustand';
+import { fetchTaxonomy } from '../lib/taxonomyApi';
+import { configureClassifier } from '../lib/classifierClient';
+import { DEFAULT_TAXONOMY, Taxonomy } from '../lib/taxonomy';
+import type { ClassifierStatus } from '../lib/newsClassifier';
+
+interface TaxonomyState {
+  taxonomy: Taxonomy;
+  isLoaded: boolean;
+  // Null until the classifier has been configured with the taxonomy
+  classifierStatus: ClassifierStatus | null;
+  loadTaxonomy: () => Promise<void>;
+}
+
+export const useTaxonomyStore = create<TaxonomyState>((set) => ({
+  taxonomy: DEFAULT_TAXONOMY,
+  isLoaded: false,
+  classifierStatus: null,
+  loadTaxonomy: async () => {
+    let taxonomy: Taxonomy;
+    try {
+      taxonomy = await fetchTaxonomy();
+      if (taxonomy.categories.length === 0) {
+        throw new Error('Taxonomy is empty');
+      }
+    } catch (error) {
+      // Keep classifying with the built-in taxonomy
+      console.error('Failed to load taxonomy:', error);
+      taxonomy = DEFAULT_TAXONOMY;
+    }
+
+    let classifierStatus: ClassifierStatus | null = null;
+    try {
+      classifierStatus = await configureClassifier(taxonomy);
+    } catch (error) {
+      console.error('Failed to configure classifier worker:', error);
+    }
+    set({ taxonomy, isLoaded: true, classifierStatus });
+  }
+}));
@@ -0,0 +1,80 @@
+import {
+  ClassificationResult,
+  classifyNews,
+  getClassifierStatus,
+  loadClassifierModel,
+  setTaxonomy
+} from '../lib/newsClassifier';
+import { Entity, extractEntities, setEntityTaxonomy } from '../lib/entityExtraction';
+import type { ClassifierRequest, ClassifierResponse } from '../lib/classifierProtocol';
+
+// Texts classified between yields, so cancel messages get a chance to arrive
+const CHUNK_SIZE = 10;
+
+const ctx = self as unknown as Worker;
+// Classify requests received and not yet answered; only these can be cancelled
+const inFlight = new Set<string>();
+const cancelled = new Set<string>();
+const modelReady = loadClassifierModel();
+
+const send = (response: ClassifierResponse) => ctx.postMessage(response);
+
+const yieldToEvents = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const classifyBatch = async (request: Extract<ClassifierRequest, { type: 'classify' }>) => {
+  const { requestId, texts, options, withEntities } = request;
+  inFlight.add(requestId);
+
+  try {
+    await modelReady;
+    const results: ClassificationResult[] = [];
+    const entities: Entity[][] = [];
+
+    for (let start = 0; start < texts.length; start += CHUNK_SIZE) {
+      if (cancelled.has(requestId)) {
+        send({ type: 'cancelled', requestId });
+        return;
+      }
+
+      texts.slice(start, start + CHUNK_SIZE).forEach(text => {
+        results.push(classifyNews(text, options));
+        if (withEntities) entities.push(extractEntities(text));
+      });
+      send({ type: 'progress', requestId, completed: results.length, total: texts.length });
+      await yieldToEvents();
+    }
+
+    send({ type: 'result', requestId, results, ...(withEntities ? { entities } : {}) });
+  } finally {
+    inFlight.delete(requestId);
+    cancelled.delete(requestId);
+  }
+};
+
+ctx.onmessage = async (event: MessageEvent<ClassifierRequest>) => {
+  const request = event.data;
+
+  try {
+    switch (request.type) {
+      case 'configure':
+        setTaxonomy(request.taxonomy);
+        setEntityTaxonomy(request.taxonomy);
+        await modelReady;
+        send({ type: 'configured', requestId: request.requestId, status: getClassifierStatus() });
+        break;
+      case 'classify':
+        await classifyBatch(request);
+        break;
+      case 'cancel':
+        // A cancel that crossed the result in flight has nothing left to stop
+        if (inFlight.has(request.requestId)) cancelled.add(request.requestId);
+        break;
+    }
+  } catch (error) {
+    send({
+      type: 'error',
+      requestId: request.requestId,
+      message: error instanceof Error ? error.message : 'Classification failed'
+    });
+  }
+};
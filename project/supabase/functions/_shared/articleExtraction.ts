@@ -0,0 +1,370 @@
+/*
+  Main-content extraction shared by the extract-article edge function and the
+  local stand-in in scripts/articleExtractServer.ts. Like newsProxy.ts it only
+  uses standard fetch types, and parses HTML itself since Deno has no DOMParser.
+
+  The extraction follows Readability: paragraphs score their parent and
+  grandparent by length and commas, boilerplate (nav, comments, sidebars) is
+  skipped, and the best-scoring container's text is kept.
+*/
+import {
+  corsHeaders,
+  errorResponse,
+  fetchPublic,
+  HostResolver,
+  ProxyError,
+  readLimitedText,
+  secondsUntilUtcMidnight
+} from './newsProxy.ts';
+
+export const DEFAULT_EXTRACT_DAILY_QUOTA = 500;
+
+// Pages larger than this are refused rather than parsed
+const MAX_PAGE_BYTES = 3_000_000;
+// A page that takes longer than this to arrive is given up on
+const UPSTREAM_TIMEOUT_MS = 10_000;
+// Extracted text is cut to this length; the classifier gains nothing past it
+const MAX_TEXT_CHARS = 20_000;
+
+export interface ExtractedArticle {
+  url: string;
+  title: string;
+  text: string;
+  wordCount: number;
+}
+
+interface HtmlElement {
+  tag: string;
+  // Lowercased class and id, for the boilerplate patterns
+  classAndId: string;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+}
+
+type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr']);
+// Elements whose content is not markup; skipped up to their closing tag
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'noscript', 'template', 'textarea', 'svg', 'math']);
+// Never part of the article body
+const SKIPPED_TAGS = new Set(['nav', 'header', 'footer', 'aside', 'form', 'button', 'select', 'iframe', 'figcaption', 'dialog']);
+// Opening one of these closes an open element of the same kind
+const SELF_CLOSING_SIBLINGS = new Set(['p', 'li', 'option', 'dt', 'dd', 'tr', 'td', 'th']);
+const PARAGRAPH_TAGS = new Set(['p', 'pre', 'blockquote']);
+const TEXT_BLOCK_TAGS = new Set(['p', 'pre', 'blockquote', 'h2', 'h3', 'h4', 'li']);
+const STRUCTURAL_TAGS = new Set(['html', 'body', 'main', 'article']);
+
+const UNLIKELY = /banner|breadcrumb|combx|comment|community|cookie|disqus|extra|footer|header|legends|menu|modal|newsletter|outbrain|pager|popup|promo|related|remark|replies|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|taboola|tags|tool|widget|ad-|ads-|advert/;
+const LIKELY = /and|article|body|column|content|main|shadow|story|text|entry|post/;
+const POSITIVE = /article|body|content|entry|hentry|main|page|post|story|text|blog/;
+const NEGATIVE = /comment|com-|contact|foot|footer|footnote|masthead|media|meta|outbrain|promo|related|scroll|shoutbox|sidebar|sponsor|shopping|tags|tool|widget|caption/;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', mdash: '—', ndash: '–', hellip: '…',
+  lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', laquo: '«', raquo: '»', copy: '©', reg: '®', trade: '™'
+};
+
+export const decodeEntities = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+
+const attribute = (attributes: string, name: string) =>
+  attributes.match(new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'))?.slice(1).find(value => value !== undefined) ?? '';
+
+const TAG_PATTERN = /<!--[\s\S]*?-->|<![^>]*>|<\?[^>]*>|<(\/?)([a-zA-Z][a-zA-Z0-9-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+
+// A forgiving HTML parser: enough structure for scoring, no error recovery
+// beyond closing unclosed elements and implicitly closed paragraphs
+export const parseHtml = (html: string): HtmlElement => {
+  const root: HtmlElement = { tag: '#root', classAndId: '', children: [], parent: null };
+  let current = root;
+  let position = 0;
+  const lowerHtml = html.toLowerCase();
+  TAG_PATTERN.lastIndex = 0;
+
+  const appendText = (text: string) => {
+    if (text) current.children.push(decodeEntities(text));
+  };
+
+  for (let match = TAG_PATTERN.exec(html); match; match = TAG_PATTERN.exec(html)) {
+    appendText(html.slice(position, match.index));
+    position = TAG_PATTERN.lastIndex;
+
+    const [, closing, rawTag, attributes] = match;
+    if (!rawTag) continue;
+    const tag = rawTag.toLowerCase();
+
+    if (closing) {
+      let element: HtmlElement | null = current;
+      while (element && element.tag !== tag) element = element.parent;
+      if (element?.parent) current = element.parent;
+      continue;
+    }
+
+    if (RAW_TEXT_TAGS.has(tag)) {
+      const end = lowerHtml.indexOf(`</${tag}`, position);
+      position = end === -1 ? html.length : html.indexOf('>', end) + 1 || html.length;
+      TAG_PATTERN.lastIndex = position;
+      continue;
+    }
+
+    if (SELF_CLOSING_SIBLINGS.has(tag) && current.tag === tag && current.parent) {
+      current = current.parent;
+    }
+
+    const element: HtmlElement = {
+      tag,
+      classAndId: `${attribute(attributes, 'class')} ${attribute(attributes, 'id')}`.toLowerCase(),
+      children: [],
+      parent: current
+    };
+    current.children.push(element);
+    if (!VOID_TAGS.has(tag) && !attributes.trimEnd().endsWith('/')) current = element;
+  }
+  appendText(html.slice(position));
+  return root;
+};
+
+const isBoilerplate = (element: HtmlElement) =>
+  SKIPPED_TAGS.has(element.tag) ||
+  (!STRUCTURAL_TAGS.has(element.tag) && UNLIKELY.test(element.classAndId) && !LIKELY.test(element.classAndId));
+
+// Block elements are padded so adjacent blocks do not run together
+const BLOCK_TAGS = new Set([...TEXT_BLOCK_TAGS, 'div', 'section', 'article', 'main', 'h1', 'ul', 'ol', 'tr', 'td', 'br']);
+
+const textOf = (node: HtmlNode): string => {
+  if (typeof node === 'string') return node;
+  if (isBoilerplate(node)) return '';
+  const text = node.children.map(textOf).join('');
+  return BLOCK_TAGS.has(node.tag) ? ` ${text} ` : text;
+};
+
+const normalizeSpace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+const linkTextLength = (element: HtmlElement): number => element.children.reduce(
+  (total, child) => typeof child === 'string'
+    ? total
+    : total + (child.tag === 'a' ? normalizeSpace(textOf(child)).length : linkTextLength(child)),
+  0
+);
+
+const linkDensity = (element: HtmlElement) => {
+  const length = normalizeSpace(textOf(element)).length;
+  return length === 0 ? 0 : linkTextLength(element) / length;
+};
+
+const classWeight = (element: HtmlElement) =>
+  (POSITIVE.test(element.classAndId) ? 25 : 0) - (NEGATIVE.test(element.classAndId) ? 25 : 0);
+
+const baseScore = (element: HtmlElement) => {
+  switch (element.tag) {
+    case 'article': return 10;
+    case 'div': case 'section': case 'main': return 5;
+    case 'pre': case 'td': case 'blockquote': return 3;
+    case 'ol': case 'ul': case 'li': case 'form': return -3;
+    case 'h1': case 'h2': case 'h3': case 'th': return -5;
+    default: return 0;
+  }
+};
+
+const visitElements = (element: HtmlElement, visit: (element: HtmlElement) => void) => {
+  element.children.forEach(child => {
+    if (typeof child === 'string' || isBoilerplate(child)) return;
+    visit(child);
+    visitElements(child, visit);
+  });
+};
+
+const findContentElement = (root: HtmlElement): HtmlElement | null => {
+  const scores = new Map<HtmlElement, number>();
+  const addScore = (element: HtmlElement | null, points: number) => {
+    if (!element || element.tag === '#root') return;
+    scores.set(element, (scores.get(element) ?? baseScore(element) + classWeight(element)) + points);
+  };
+
+  visitElements(root, element => {
+    if (!PARAGRAPH_TAGS.has(element.tag)) return;
+    const text = normalizeSpace(textOf(element));
+    if (text.length < 25) return;
+
+    const points = 1 + text.split(',').length + Math.min(Math.floor(text.length / 100), 3);
+    addScore(element.parent, points);
+    addScore(element.parent?.parent ?? null, points / 2);
+  });
+
+  let best: HtmlElement | null = null;
+  let bestScore = 0;
+  scores.forEach((score, element) => {
+    const adjusted = score * (1 - linkDensity(element));
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  });
+  return best;
+};
+
+// Text blocks of the content element, one per paragraph, without link lists
+const contentText = (element: HtmlElement): string => {
+  const blocks: string[] = [];
+  const collect = (node: HtmlElement) => {
+    // The headline is already known to the caller
+    if (node.tag === 'h1') return;
+    if (TEXT_BLOCK_TAGS.has(node.tag)) {
+      const text = normalizeSpace(textOf(node));
+      if (text && linkDensity(node) < 0.5) blocks.push(text);
+      return;
+    }
+    node.children.forEach(child => {
+      if (typeof child === 'string') {
+        const text = normalizeSpace(child);
+        // Bare text directly inside the container, as some sites write paragraphs
+        if (text.length >= 25) blocks.push(text);
+      } else if (!isBoilerplate(child)) {
+        collect(child);
+      }
+    });
+  };
+  collect(element);
+  return blocks.join('\n\n');
+};
+
+const findFirst = (element: HtmlElement, tag: string): HtmlElement | null => {
+  for (const child of element.children) {
+    if (typeof child === 'string') continue;
+    if (child.tag === tag) return child;
+    const found = findFirst(child, tag);
+    if (found) return found;
+  }
+  return null;
+};
+
+const metaContent = (html: string, property: string) => {
+  const tag = html.match(new RegExp(`<meta[^>]+(?:property|name)\\s*=\\s*["']${property}["'][^>]*>`, 'i'))?.[0];
+  return tag ? decodeEntities(attribute(tag, 'content')).trim() : '';
+};
+
+export const extractArticle = (html: string, url: string): ExtractedArticle => {
+  const root = parseHtml(html);
+  const titleElement = findFirst(root, 'title');
+  const title = metaContent(html, 'og:title') || (titleElement ? normalizeSpace(textOf(titleElement)) : '');
+
+  const content = findContentElement(root);
+  const text = (content ? contentText(content) : '').slice(0, MAX_TEXT_CHARS);
+
+  return {
+    url,
+    title,
+    text,
+    wordCount: text ? text.split(/\s+/).length : 0
+  };
+};
+
+export const checkArticleUrl = (value: string | null): string => {
+  let url: URL;
+  try {
+    url = new URL(value ?? '');
+  } catch {
+    throw new ProxyError(400, 'invalidArticleUrl', 'The url parameter must be an absolute URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ProxyError(400, 'invalidArticleUrl', 'Only http and https articles can be extracted');
+  }
+  return url.toString();
+};
+
+export interface ArticleExtractDeps {
+  dailyQuota: number;
+  // Resolve the caller's user id from their bearer token, or null if invalid
+  authenticate: (token: string) => Promise<string | null>;
+  // Count one extraction; returns how many are left today, or -1 when exhausted
+  consumeQuota: (userId: string, limit: number) => Promise<number>;
+  resolveHost: HostResolver;
+  fetchUpstream?: (url: string, signal: AbortSignal) => Promise<Response>;
+}
+
+// Route: GET <base>?url=<article url>, answered with an ExtractedArticle
+export const createArticleExtractHandler = (deps: ArticleExtractDeps) => {
+  const fetchUpstream = deps.fetchUpstream ?? ((url: string, signal: AbortSignal) => fetchPublic(url, deps.resolveHost, {
+    headers: { 'User-Agent': 'news-classifier-extractor', Accept: 'text/html' },
+    signal
+  }));
+
+  return async (request: Request): Promise<Response> => {
+    if (request.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    try {
+      if (request.method !== 'GET') {
+        throw new ProxyError(405, 'methodNotAllowed', 'Only GET requests are supported');
+      }
+
+      const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+      const userId = token ? await deps.authenticate(token) : null;
+      if (!userId) {
+        throw new ProxyError(401, 'unauthorized', 'Sign in to extract articles');
+      }
+
+      const articleUrl = checkArticleUrl(new URL(request.url).searchParams.get('url'));
+
+      const remaining = await deps.consumeQuota(userId, deps.dailyQuota);
+      if (remaining < 0) {
+        throw new ProxyError(
+          429,
+          'quotaExceeded',
+          `Daily limit of ${deps.dailyQuota} article extractions reached`,
+          secondsUntilUtcMidnight()
+        );
+      }
+
+      // The timeout covers the redirects and the whole body, not just the headers
+      const signal = AbortSignal.timeout(UPSTREAM_TIMEOUT_MS);
+      let html: string;
+      try {
+        const upstream = await fetchUpstream(articleUrl, signal);
+        if (!upstream.ok) {
+          await upstream.body?.cancel();
+          throw new ProxyError(502, 'upstreamFailed', `The article page returned ${upstream.status}`);
+        }
+        const contentType = upstream.headers.get('Content-Type') ?? '';
+        if (contentType && !/html/i.test(contentType)) {
+          await upstream.body?.cancel();
+          throw new ProxyError(415, 'notHtml', 'The article is not an HTML page');
+        }
+        html = await readLimitedText(
+          upstream,
+          MAX_PAGE_BYTES,
+          () => new ProxyError(413, 'articleTooLarge', 'The article page is too large to extract')
+        );
+      } catch (error) {
+        if (signal.aborted) {
+          throw new ProxyError(504, 'upstreamTimeout', 'The article page took too long to load');
+        }
+        throw error;
+      }
+
+      const article = extractArticle(html, articleUrl);
+      if (!article.text) {
+        throw new ProxyError(422, 'noArticleText', 'No article text was found on the page');
+      }
+
+      return new Response(JSON.stringify(article), {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'application/json',
+          'X-Quota-Remaining': String(remaining),
+          // Article bodies rarely change once published
+          'Cache-Control': 'private, max-age=86400'
+        }
+      });
+    } catch (error) {
+      return errorResponse(error);
+    }
+  };
+};
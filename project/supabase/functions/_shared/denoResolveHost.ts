@@ -0,0 +1,16 @@
+/*
+  Host lookup for the edge functions' public-address checks (see fetchPublic
+  in newsProxy.ts). Deno-only, unlike the rest of _shared; the local stand-ins
+  in scripts/ resolve with node:dns instead.
+*/
+import type { HostResolver } from './newsProxy.ts';
+
+// A host with only one kind of record fails the other lookup, so both are
+// tried and whatever answers is kept
+export const resolveHost: HostResolver = async (hostname) => {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA')
+  ]);
+  return lookups.flatMap(lookup => lookup.status === 'fulfilled' ? lookup.value : []);
+};
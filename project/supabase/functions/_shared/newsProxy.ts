@@ -0,0 +1,321 @@
+/*
+  Request handling shared by the news-proxy edge function and the local
+  stand-in in scripts/newsProxyServer.ts. Only standard fetch types are used
+  here, so it runs unchanged on Deno and Node.
+*/
+
+export const NEWS_API_BASE_URL = 'https://newsapi.org/v2';
+export const DEFAULT_DAILY_QUOTA = 200;
+
+// Feeds larger than this are refused rather than relayed
+const MAX_FEED_BYTES = 2_000_000;
+// Redirects followed before an upstream fetch gives up
+const MAX_REDIRECTS = 5;
+
+// Address ranges a fetch of a user-supplied URL must not reach: "this" network,
+// private, shared (CGNAT), loopback, link-local (including cloud metadata at
+// 169.254.169.254), IETF protocol, benchmarking, multicast and reserved
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8],
+  ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16],
+  ['198.18.0.0', 15], ['224.0.0.0', 3]
+];
+// Host names that only resolve inside a private network
+const INTERNAL_HOST_SUFFIXES = ['localhost', 'local', 'internal', 'home.arpa'];
+
+// Query parameters forwarded to NewsAPI per endpoint; anything else is dropped,
+// so callers can never override the server's apiKey
+const NEWS_API_PARAMS: Record<string, string[]> = {
+  'top-headlines': ['country', 'category', 'sources', 'q', 'pageSize', 'page'],
+  everything: [
+    'q', 'searchIn', 'sources', 'domains', 'excludeDomains', 'from', 'to',
+    'language', 'sortBy', 'pageSize', 'page'
+  ]
+};
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, OPTIONS',
+  'Access-Control-Expose-Headers': 'retry-after, x-quota-remaining'
+};
+
+export class ProxyError extends Error {
+  constructor(
+    public status: number,
+    public code: string,
+    message: string,
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'ProxyError';
+  }
+}
+
+export interface NewsProxyDeps {
+  apiKey: string;
+  dailyQuota: number;
+  // Resolve the caller's user id from their bearer token, or null if invalid
+  authenticate: (token: string) => Promise<string | null>;
+  // Count one request; returns how many are left today, or -1 when exhausted
+  consumeQuota: (userId: string, limit: number) => Promise<number>;
+  resolveHost: HostResolver;
+  fetchUpstream?: (url: string) => Promise<Response>;
+}
+
+// The IPv4 and IPv6 addresses a host name resolves to
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+export const buildNewsApiUrl = (endpoint: string, params: URLSearchParams, apiKey: string): string => {
+  const allowed = NEWS_API_PARAMS[endpoint];
+  if (!allowed) {
+    throw new ProxyError(404, 'unknownEndpoint', `Unknown news endpoint "${endpoint}"`);
+  }
+
+  const url = new URL(`${NEWS_API_BASE_URL}/${endpoint}`);
+  allowed.forEach(param => {
+    const value = params.get(param);
+    if (value) url.searchParams.set(param, value);
+  });
+  url.searchParams.set('apiKey', apiKey);
+  return url.toString();
+};
+
+export const checkFeedUrl = (value: string | null): string => {
+  let url: URL;
+  try {
+    url = new URL(value ?? '');
+  } catch {
+    throw new ProxyError(400, 'invalidFeedUrl', 'The feed url parameter must be an absolute URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ProxyError(400, 'invalidFeedUrl', 'Only http and https feeds can be proxied');
+  }
+  return url.toString();
+};
+
+const parseIpv4 = (address: string): number | null => {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return null;
+  return parts.reduce((value, part) => value * 256 + Number(part), 0);
+};
+
+// The eight 16-bit groups of an IPv6 address, or null if it is not one
+const parseIpv6 = (address: string): number[] | null => {
+  let text = address.replace(/^\[|\]$/g, '').split('%')[0].toLowerCase();
+  // A trailing dotted quad, as in ::ffff:10.0.0.1, is the last two groups
+  const quad = text.match(/:(\d+\.\d+\.\d+\.\d+)$/);
+  if (quad) {
+    const ipv4 = parseIpv4(quad[1]);
+    if (ipv4 === null) return null;
+    text = `${text.slice(0, -quad[1].length)}${Math.floor(ipv4 / 65536).toString(16)}:${(ipv4 % 65536).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  return groups.every(group => /^[0-9a-f]{1,4}$/.test(group)) ? groups.map(group => parseInt(group, 16)) : null;
+};
+
+const isPublicIpv4 = (address: number) =>
+  !BLOCKED_IPV4_RANGES.some(([base, bits]) => {
+    const size = 2 ** (32 - bits);
+    return Math.floor(address / size) === Math.floor(parseIpv4(base)! / size);
+  });
+
+// False for addresses in private, loopback, link-local and other non-global
+// ranges, including IPv4 addresses embedded in IPv6 ones, and for anything
+// that is not an IP address
+export const isPublicAddress = (address: string): boolean => {
+  const ipv4 = parseIpv4(address);
+  if (ipv4 !== null) return isPublicIpv4(ipv4);
+
+  const groups = parseIpv6(address);
+  if (!groups) return false;
+  const [first, second] = groups;
+  const embeddedIpv4 = groups[6] * 65536 + groups[7];
+  const leadingZeros = groups.slice(0, 6).every(group => group === 0);
+
+  // Unspecified (::), loopback (::1) and IPv4-compatible (::a.b.c.d)
+  if (leadingZeros) return embeddedIpv4 > 1 && isPublicIpv4(embeddedIpv4);
+  // IPv4-mapped (::ffff:a.b.c.d)
+  if (groups.slice(0, 5).every(group => group === 0) && groups[5] === 0xffff) return isPublicIpv4(embeddedIpv4);
+  // NAT64 (64:ff9b::a.b.c.d)
+  if (first === 0x64 && second === 0xff9b && groups.slice(2, 6).every(group => group === 0)) {
+    return isPublicIpv4(embeddedIpv4);
+  }
+  // Unique local (fc00::/7), link-local (fe80::/10), site-local (fec0::/10) and multicast (ff00::/8)
+  return (first & 0xfe00) !== 0xfc00 && (first & 0xffc0) !== 0xfe80 &&
+    (first & 0xffc0) !== 0xfec0 && (first & 0xff00) !== 0xff00;
+};
+
+// Refuse a URL unless it is http(s) on a host whose every address is public.
+// Names that only exist on private networks are refused without a lookup.
+export const checkPublicUrl = async (url: URL, resolveHost: HostResolver): Promise<void> => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ProxyError(400, 'blockedUrl', 'Only http and https URLs can be fetched');
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, '').replace(/\.$/, '').toLowerCase();
+  let addresses: string[];
+  if (parseIpv4(host) !== null || parseIpv6(host)) {
+    addresses = [host];
+  } else if (!host.includes('.') || INTERNAL_HOST_SUFFIXES.some(suffix => host === suffix || host.endsWith(`.${suffix}`))) {
+    throw new ProxyError(403, 'blockedUrl', `${host} is not a public host`);
+  } else {
+    addresses = await resolveHost(host).catch(() => []);
+    if (addresses.length === 0) {
+      throw new ProxyError(502, 'hostNotFound', `${host} could not be resolved`);
+    }
+  }
+
+  if (!addresses.every(isPublicAddress)) {
+    throw new ProxyError(403, 'blockedUrl', `${host} is not a public host`);
+  }
+};
+
+// Fetch a user-supplied URL, checking the host before the first request and
+// before following each redirect. The check and the request look the host up
+// separately, so a host that changes its DNS answer in between can still get
+// through; this keeps out plain links to internal addresses, not rebinding.
+export const fetchPublic = async (
+  url: string,
+  resolveHost: HostResolver,
+  init: RequestInit = {}
+): Promise<Response> => {
+  let current = new URL(url);
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    await checkPublicUrl(current, resolveHost);
+    const response = await fetch(current, { ...init, redirect: 'manual' });
+    const location = response.headers.get('Location');
+    if (response.status < 300 || response.status >= 400 || !location) return response;
+
+    await response.body?.cancel();
+    current = new URL(location, current);
+  }
+  throw new ProxyError(502, 'tooManyRedirects', `The upstream server redirected more than ${MAX_REDIRECTS} times`);
+};
+
+// Read a response as text, giving up as soon as it passes `maxBytes` so an
+// oversized body is never held whole. A declared Content-Length over the limit
+// is refused without reading anything.
+export const readLimitedText = async (
+  response: Response,
+  maxBytes: number,
+  tooLarge: () => ProxyError
+): Promise<string> => {
+  if (Number(response.headers.get('Content-Length')) > maxBytes) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return new TextDecoder().decode(bytes);
+};
+
+export const secondsUntilUtcMidnight = (now = new Date()): number => {
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+};
+
+// Errors use NewsAPI's { status, code, message } shape so clients handle both alike
+export const errorResponse = (error: unknown): Response => {
+  const proxyError = error instanceof ProxyError
+    ? error
+    : new ProxyError(502, 'proxyFailure', error instanceof Error ? error.message : 'News proxy failed');
+
+  const headers: Record<string, string> = { ...corsHeaders, 'Content-Type': 'application/json' };
+  if (proxyError.retryAfter !== undefined) {
+    headers['Retry-After'] = String(proxyError.retryAfter);
+  }
+  return new Response(
+    JSON.stringify({ status: 'error', code: proxyError.code, message: proxyError.message }),
+    { status: proxyError.status, headers }
+  );
+};
+
+// Routes: GET <base>/top-headlines, <base>/everything and <base>/feed?url=...
+export const createNewsProxyHandler = (deps: NewsProxyDeps) => {
+  const fetchUpstream = deps.fetchUpstream ?? ((url: string) => fetchPublic(url, deps.resolveHost, {
+    headers: { 'User-Agent': 'news-classifier-proxy' }
+  }));
+
+  return async (request: Request): Promise<Response> => {
+    if (request.method === 'OPTIONS') {
+      return new Response('ok', { headers: corsHeaders });
+    }
+
+    try {
+      if (request.method !== 'GET') {
+        throw new ProxyError(405, 'methodNotAllowed', 'Only GET requests are proxied');
+      }
+      if (!deps.apiKey) {
+        throw new ProxyError(500, 'apiKeyMissing', 'The news proxy has no NewsAPI key configured');
+      }
+
+      const token = request.headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+      const userId = token ? await deps.authenticate(token) : null;
+      if (!userId) {
+        throw new ProxyError(401, 'unauthorized', 'Sign in to load news');
+      }
+
+      const url = new URL(request.url);
+      const route = url.pathname.split('/').filter(Boolean).pop() ?? '';
+      const upstreamUrl = route === 'feed'
+        ? checkFeedUrl(url.searchParams.get('url'))
+        : buildNewsApiUrl(route, url.searchParams, deps.apiKey);
+
+      const remaining = await deps.consumeQuota(userId, deps.dailyQuota);
+      if (remaining < 0) {
+        throw new ProxyError(
+          429,
+          'quotaExceeded',
+          `Daily limit of ${deps.dailyQuota} news requests reached`,
+          secondsUntilUtcMidnight()
+        );
+      }
+
+      const upstream = await fetchUpstream(upstreamUrl);
+      const body = route === 'feed'
+        ? await readLimitedText(upstream, MAX_FEED_BYTES, () => new ProxyError(413, 'feedTooLarge', 'The feed is too large to proxy'))
+        : await upstream.text();
+
+      const headers: Record<string, string> = {
+        ...corsHeaders,
+        'Content-Type': upstream.headers.get('Content-Type') ?? 'application/json',
+        'X-Quota-Remaining': String(remaining)
+      };
+      const retryAfter = upstream.headers.get('Retry-After');
+      if (retryAfter) headers['Retry-After'] = retryAfter;
+
+      return new Response(body, { status: upstream.status, headers });
+    } catch (error) {
+      return errorResponse(error);
+    }
+  };
+};
@@ -0,0 +1,37 @@
+/*
+  Article extraction edge function. Fetches an article page for a signed-in
+  user and returns its main text, so articles can be classified on more than
+  NewsAPI's truncated description and content. Enforces a daily per-user
+  extraction quota (article_extract_usage) and refuses pages on private or
+  internal addresses.
+
+  Secrets: optional ARTICLE_EXTRACT_DAILY_QUOTA.
+  Deploy:  supabase functions deploy extract-article
+*/
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createArticleExtractHandler, DEFAULT_EXTRACT_DAILY_QUOTA } from '../_shared/articleExtraction.ts';
+import { resolveHost } from '../_shared/denoResolveHost.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+const handler = createArticleExtractHandler({
+  dailyQuota: Number(Deno.env.get('ARTICLE_EXTRACT_DAILY_QUOTA')) || DEFAULT_EXTRACT_DAILY_QUOTA,
+  authenticate: async (token) => {
+    const { data, error } = await supabase.auth.getUser(token);
+    return error ? null : data.user?.id ?? null;
+  },
+  consumeQuota: async (userId, limit) => {
+    const { data, error } = await supabase.rpc('consume_extract_quota', {
+      p_user_id: userId,
+      p_limit: limit
+    });
+    if (error) throw new Error(`Failed to check quota: ${error.message}`);
+    return data as number;
+  },
+  resolveHost
+});
+
+Deno.serve(handler);
@@ -0,0 +1,37 @@
+/*
+  News proxy edge function. Holds the NewsAPI key server-side, relays
+  top-headlines/everything queries and RSS/Atom feeds for signed-in users,
+  and enforces a daily per-user request quota (news_proxy_usage). Feed URLs
+  that resolve to private or internal addresses are refused.
+
+  Secrets: NEWS_API_KEY, optional NEWS_PROXY_DAILY_QUOTA.
+  Deploy:  supabase functions deploy news-proxy
+*/
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { createNewsProxyHandler, DEFAULT_DAILY_QUOTA } from '../_shared/newsProxy.ts';
+import { resolveHost } from '../_shared/denoResolveHost.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+const handler = createNewsProxyHandler({
+  apiKey: Deno.env.get('NEWS_API_KEY') ?? '',
+  dailyQuota: Number(Deno.env.get('NEWS_PROXY_DAILY_QUOTA')) || DEFAULT_DAILY_QUOTA,
+  authenticate: async (token) => {
+    const { data, error } = await supabase.auth.getUser(token);
+    return error ? null : data.user?.id ?? null;
+  },
+  consumeQuota: async (userId, limit) => {
+    const { data, error } = await supabase.rpc('consume_news_quota', {
+      p_user_id: userId,
+      p_limit: limit
+    });
+    if (error) throw new Error(`Failed to check quota: ${error.message}`);
+    return data as number;
+  },
+  resolveHost
+});
+
+Deno.serve(handler);
@@ -0,0 +1,21 @@
+/*
+  # Multi-label reading history
+
+  1. Changes
+    - user_history
+      - categories (text[]): every label the classifier assigned to the article.
+        `category` stays as the primary label.
+
+  2. Data
+    - Backfill categories from category for existing rows
+*/
+
+ALTER TABLE user_history
+  ADD COLUMN IF NOT EXISTS categories text[] NOT NULL DEFAULT '{}';
+
+UPDATE user_history
+  SET categories = ARRAY[category]
+  WHERE categories = '{}';
+
+CREATE INDEX IF NOT EXISTS user_history_categories_idx
+  ON user_history USING gin (categories);
@@ -0,0 +1,356 @@
+/*
+  # Editable category taxonomy
+
+  1. New Tables
+    - taxonomy_categories
+      - id (uuid, primary key)
+      - name (text, unique)
+      - color (text, hex color used in charts and badges)
+      - position (integer, display order)
+      - created_at (timestamp)
+
+    - taxonomy_keywords
+      - id (uuid, primary key)
+      - category_id (uuid, references taxonomy_categories)
+      - tier (text): 'primary', 'secondary' or any other group name
+      - term (text)
+
+  2. Security
+    - Enable RLS on both tables
+    - Any signed-in user can read the taxonomy
+    - Only admins (app_metadata.role = 'admin') can change it
+
+  3. Data
+    - Seed with the categories and keywords that used to be hard-coded
+*/
+
+CREATE TABLE IF NOT EXISTS taxonomy_categories (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  color text NOT NULL DEFAULT '#6b7280',
+  position integer NOT NULL DEFAULT 0,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS taxonomy_keywords (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  category_id uuid REFERENCES taxonomy_categories ON DELETE CASCADE NOT NULL,
+  tier text NOT NULL,
+  term text NOT NULL,
+  UNIQUE (category_id, tier, term)
+);
+
+ALTER TABLE taxonomy_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE taxonomy_keywords ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read categories"
+  ON taxonomy_categories
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage categories"
+  ON taxonomy_categories
+  FOR ALL
+  TO authenticated
+  USING ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin')
+  WITH CHECK ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+CREATE POLICY "Authenticated users can read keywords"
+  ON taxonomy_keywords
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage keywords"
+  ON taxonomy_keywords
+  FOR ALL
+  TO authenticated
+  USING ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin')
+  WITH CHECK ((auth.jwt() -> 'app_metadata' ->> 'role') = 'admin');
+
+-- Seed the built-in taxonomy
+INSERT INTO taxonomy_categories (name, color, position) VALUES
+  ('Technology', '#4f46e5', 0),
+  ('Business', '#06b6d4', 1),
+  ('Politics', '#ec4899', 2),
+  ('Sports', '#22c55e', 3),
+  ('Entertainment', '#f59e0b', 4),
+  ('Health', '#ef4444', 5),
+  ('Science', '#8b5cf6', 6)
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO taxonomy_keywords (category_id, tier, term)
+SELECT c.id, k.tier, k.term
+FROM (VALUES
+  ('Technology', 'primary', 'ai'),
+  ('Technology', 'primary', 'technology'),
+  ('Technology', 'primary', 'software'),
+  ('Technology', 'primary', 'digital'),
+  ('Technology', 'primary', 'cyber'),
+  ('Technology', 'primary', 'tech'),
+  ('Technology', 'primary', 'computer'),
+  ('Technology', 'primary', 'internet'),
+  ('Technology', 'primary', 'blockchain'),
+  ('Technology', 'primary', 'robot'),
+  ('Technology', 'primary', 'code'),
+  ('Technology', 'secondary', 'innovation'),
+  ('Technology', 'secondary', 'startup'),
+  ('Technology', 'secondary', 'device'),
+  ('Technology', 'secondary', 'app'),
+  ('Technology', 'secondary', 'mobile'),
+  ('Technology', 'secondary', 'data'),
+  ('Technology', 'secondary', 'cloud'),
+  ('Technology', 'secondary', 'programming'),
+  ('Technology', 'secondary', 'algorithm'),
+  ('Technology', 'secondary', 'developer'),
+  ('Technology', 'companies', 'google'),
+  ('Technology', 'companies', 'apple'),
+  ('Technology', 'companies', 'microsoft'),
+  ('Technology', 'companies', 'amazon'),
+  ('Technology', 'companies', 'meta'),
+  ('Technology', 'companies', 'tesla'),
+  ('Technology', 'companies', 'nvidia'),
+  ('Technology', 'companies', 'intel'),
+  ('Technology', 'companies', 'ibm'),
+  ('Technology', 'companies', 'oracle'),
+  ('Technology', 'concepts', 'artificial intelligence'),
+  ('Technology', 'concepts', 'machine learning'),
+  ('Technology', 'concepts', 'virtual reality'),
+  ('Technology', 'concepts', 'augmented reality'),
+  ('Technology', 'concepts', 'cryptocurrency'),
+  ('Technology', 'concepts', '5g'),
+  ('Technology', 'concepts', 'quantum computing'),
+  ('Technology', 'concepts', 'cybersecurity'),
+  ('Technology', 'products', 'iphone'),
+  ('Technology', 'products', 'android'),
+  ('Technology', 'products', 'windows'),
+  ('Technology', 'products', 'linux'),
+  ('Technology', 'products', 'ios'),
+  ('Technology', 'products', 'web3'),
+  ('Technology', 'products', 'neural network'),
+  ('Business', 'primary', 'business'),
+  ('Business', 'primary', 'market'),
+  ('Business', 'primary', 'economy'),
+  ('Business', 'primary', 'finance'),
+  ('Business', 'primary', 'trade'),
+  ('Business', 'primary', 'investment'),
+  ('Business', 'primary', 'stock'),
+  ('Business', 'primary', 'revenue'),
+  ('Business', 'primary', 'profit'),
+  ('Business', 'secondary', 'startup'),
+  ('Business', 'secondary', 'company'),
+  ('Business', 'secondary', 'industry'),
+  ('Business', 'secondary', 'corporate'),
+  ('Business', 'secondary', 'enterprise'),
+  ('Business', 'secondary', 'merger'),
+  ('Business', 'secondary', 'acquisition'),
+  ('Business', 'secondary', 'venture'),
+  ('Business', 'financial', 'nasdaq'),
+  ('Business', 'financial', 'dow jones'),
+  ('Business', 'financial', 'sp500'),
+  ('Business', 'financial', 'wall street'),
+  ('Business', 'financial', 'ipo'),
+  ('Business', 'financial', 'earnings'),
+  ('Business', 'financial', 'shares'),
+  ('Business', 'financial', 'dividend'),
+  ('Business', 'financial', 'portfolio'),
+  ('Business', 'concepts', 'quarterly report'),
+  ('Business', 'concepts', 'market analysis'),
+  ('Business', 'concepts', 'economic growth'),
+  ('Business', 'concepts', 'fiscal policy'),
+  ('Business', 'concepts', 'monetary policy'),
+  ('Business', 'concepts', 'inflation'),
+  ('Business', 'concepts', 'recession'),
+  ('Business', 'sectors', 'banking'),
+  ('Business', 'sectors', 'retail'),
+  ('Business', 'sectors', 'manufacturing'),
+  ('Business', 'sectors', 'real estate'),
+  ('Business', 'sectors', 'energy'),
+  ('Business', 'sectors', 'automotive'),
+  ('Politics', 'primary', 'politics'),
+  ('Politics', 'primary', 'government'),
+  ('Politics', 'primary', 'election'),
+  ('Politics', 'primary', 'policy'),
+  ('Politics', 'primary', 'congress'),
+  ('Politics', 'primary', 'senate'),
+  ('Politics', 'primary', 'democrat'),
+  ('Politics', 'primary', 'republican'),
+  ('Politics', 'primary', 'parliament'),
+  ('Politics', 'secondary', 'legislation'),
+  ('Politics', 'secondary', 'vote'),
+  ('Politics', 'secondary', 'campaign'),
+  ('Politics', 'secondary', 'political'),
+  ('Politics', 'secondary', 'president'),
+  ('Politics', 'secondary', 'administration'),
+  ('Politics', 'secondary', 'diplomatic'),
+  ('Politics', 'secondary', 'governor'),
+  ('Politics', 'international', 'foreign policy'),
+  ('Politics', 'international', 'international relations'),
+  ('Politics', 'international', 'diplomacy'),
+  ('Politics', 'international', 'treaty'),
+  ('Politics', 'international', 'sanctions'),
+  ('Politics', 'international', 'united nations'),
+  ('Politics', 'international', 'eu'),
+  ('Politics', 'concepts', 'democracy'),
+  ('Politics', 'concepts', 'constitution'),
+  ('Politics', 'concepts', 'bipartisan'),
+  ('Politics', 'concepts', 'legislative'),
+  ('Politics', 'concepts', 'judiciary'),
+  ('Politics', 'concepts', 'executive order'),
+  ('Politics', 'events', 'summit'),
+  ('Politics', 'events', 'referendum'),
+  ('Politics', 'events', 'inauguration'),
+  ('Politics', 'events', 'impeachment'),
+  ('Politics', 'events', 'coalition'),
+  ('Sports', 'primary', 'sports'),
+  ('Sports', 'primary', 'game'),
+  ('Sports', 'primary', 'team'),
+  ('Sports', 'primary', 'player'),
+  ('Sports', 'primary', 'championship'),
+  ('Sports', 'primary', 'tournament'),
+  ('Sports', 'primary', 'match'),
+  ('Sports', 'primary', 'score'),
+  ('Sports', 'primary', 'athlete'),
+  ('Sports', 'secondary', 'win'),
+  ('Sports', 'secondary', 'lose'),
+  ('Sports', 'secondary', 'victory'),
+  ('Sports', 'secondary', 'defeat'),
+  ('Sports', 'secondary', 'season'),
+  ('Sports', 'secondary', 'league'),
+  ('Sports', 'secondary', 'coach'),
+  ('Sports', 'secondary', 'stadium'),
+  ('Sports', 'secondary', 'record'),
+  ('Sports', 'leagues', 'nfl'),
+  ('Sports', 'leagues', 'nba'),
+  ('Sports', 'leagues', 'mlb'),
+  ('Sports', 'leagues', 'nhl'),
+  ('Sports', 'leagues', 'fifa'),
+  ('Sports', 'leagues', 'uefa'),
+  ('Sports', 'leagues', 'olympics'),
+  ('Sports', 'leagues', 'premier league'),
+  ('Sports', 'leagues', 'formula 1'),
+  ('Sports', 'concepts', 'world cup'),
+  ('Sports', 'concepts', 'super bowl'),
+  ('Sports', 'concepts', 'playoffs'),
+  ('Sports', 'concepts', 'final four'),
+  ('Sports', 'concepts', 'grand slam'),
+  ('Sports', 'concepts', 'medal'),
+  ('Sports', 'concepts', 'draft'),
+  ('Sports', 'roles', 'quarterback'),
+  ('Sports', 'roles', 'striker'),
+  ('Sports', 'roles', 'pitcher'),
+  ('Sports', 'roles', 'defender'),
+  ('Sports', 'roles', 'manager'),
+  ('Sports', 'roles', 'referee'),
+  ('Entertainment', 'primary', 'entertainment'),
+  ('Entertainment', 'primary', 'movie'),
+  ('Entertainment', 'primary', 'film'),
+  ('Entertainment', 'primary', 'music'),
+  ('Entertainment', 'primary', 'celebrity'),
+  ('Entertainment', 'primary', 'actor'),
+  ('Entertainment', 'primary', 'actress'),
+  ('Entertainment', 'primary', 'star'),
+  ('Entertainment', 'primary', 'director'),
+  ('Entertainment', 'secondary', 'hollywood'),
+  ('Entertainment', 'secondary', 'tv'),
+  ('Entertainment', 'secondary', 'show'),
+  ('Entertainment', 'secondary', 'series'),
+  ('Entertainment', 'secondary', 'album'),
+  ('Entertainment', 'secondary', 'concert'),
+  ('Entertainment', 'secondary', 'award'),
+  ('Entertainment', 'secondary', 'performance'),
+  ('Entertainment', 'secondary', 'cast'),
+  ('Entertainment', 'events', 'oscar'),
+  ('Entertainment', 'events', 'grammy'),
+  ('Entertainment', 'events', 'emmy'),
+  ('Entertainment', 'events', 'golden globe'),
+  ('Entertainment', 'events', 'festival'),
+  ('Entertainment', 'events', 'premiere'),
+  ('Entertainment', 'events', 'red carpet'),
+  ('Entertainment', 'concepts', 'box office'),
+  ('Entertainment', 'concepts', 'streaming'),
+  ('Entertainment', 'concepts', 'rating'),
+  ('Entertainment', 'concepts', 'review'),
+  ('Entertainment', 'concepts', 'debut'),
+  ('Entertainment', 'concepts', 'sequel'),
+  ('Entertainment', 'concepts', 'franchise'),
+  ('Entertainment', 'platforms', 'netflix'),
+  ('Entertainment', 'platforms', 'disney'),
+  ('Entertainment', 'platforms', 'hbo'),
+  ('Entertainment', 'platforms', 'spotify'),
+  ('Entertainment', 'platforms', 'amazon prime'),
+  ('Entertainment', 'platforms', 'hulu'),
+  ('Health', 'primary', 'health'),
+  ('Health', 'primary', 'medical'),
+  ('Health', 'primary', 'disease'),
+  ('Health', 'primary', 'treatment'),
+  ('Health', 'primary', 'patient'),
+  ('Health', 'primary', 'doctor'),
+  ('Health', 'primary', 'hospital'),
+  ('Health', 'primary', 'medicine'),
+  ('Health', 'primary', 'clinic'),
+  ('Health', 'secondary', 'research'),
+  ('Health', 'secondary', 'study'),
+  ('Health', 'secondary', 'clinical'),
+  ('Health', 'secondary', 'therapy'),
+  ('Health', 'secondary', 'vaccine'),
+  ('Health', 'secondary', 'drug'),
+  ('Health', 'secondary', 'pharmaceutical'),
+  ('Health', 'secondary', 'diagnosis'),
+  ('Health', 'conditions', 'cancer'),
+  ('Health', 'conditions', 'diabetes'),
+  ('Health', 'conditions', 'heart disease'),
+  ('Health', 'conditions', 'obesity'),
+  ('Health', 'conditions', 'mental health'),
+  ('Health', 'conditions', 'alzheimer'),
+  ('Health', 'conditions', 'covid'),
+  ('Health', 'concepts', 'public health'),
+  ('Health', 'concepts', 'healthcare'),
+  ('Health', 'concepts', 'medical research'),
+  ('Health', 'concepts', 'clinical trial'),
+  ('Health', 'concepts', 'prevention'),
+  ('Health', 'concepts', 'wellness'),
+  ('Health', 'specialists', 'surgeon'),
+  ('Health', 'specialists', 'physician'),
+  ('Health', 'specialists', 'nurse'),
+  ('Health', 'specialists', 'pediatrician'),
+  ('Health', 'specialists', 'psychiatrist'),
+  ('Science', 'primary', 'science'),
+  ('Science', 'primary', 'research'),
+  ('Science', 'primary', 'study'),
+  ('Science', 'primary', 'discovery'),
+  ('Science', 'primary', 'scientist'),
+  ('Science', 'primary', 'experiment'),
+  ('Science', 'primary', 'theory'),
+  ('Science', 'primary', 'evidence'),
+  ('Science', 'primary', 'laboratory'),
+  ('Science', 'secondary', 'scientific'),
+  ('Science', 'secondary', 'physics'),
+  ('Science', 'secondary', 'chemistry'),
+  ('Science', 'secondary', 'biology'),
+  ('Science', 'secondary', 'astronomy'),
+  ('Science', 'secondary', 'climate'),
+  ('Science', 'secondary', 'evolution'),
+  ('Science', 'secondary', 'genome'),
+  ('Science', 'fields', 'quantum'),
+  ('Science', 'fields', 'molecular'),
+  ('Science', 'fields', 'genetic'),
+  ('Science', 'fields', 'environmental'),
+  ('Science', 'fields', 'neuroscience'),
+  ('Science', 'fields', 'biochemistry'),
+  ('Science', 'fields', 'astrophysics'),
+  ('Science', 'concepts', 'peer review'),
+  ('Science', 'concepts', 'scientific method'),
+  ('Science', 'concepts', 'breakthrough'),
+  ('Science', 'concepts', 'hypothesis'),
+  ('Science', 'concepts', 'observation'),
+  ('Science', 'concepts', 'data analysis'),
+  ('Science', 'institutions', 'nasa'),
+  ('Science', 'institutions', 'cern'),
+  ('Science', 'institutions', 'university'),
+  ('Science', 'institutions', 'laboratory'),
+  ('Science', 'institutions', 'institute')
+) AS k(category, tier, term)
+JOIN taxonomy_categories c ON c.name = k.category
+ON CONFLICT (category_id, tier, term) DO NOTHING;
@@ -0,0 +1,42 @@
+/*
+  # Classification feedback
+
+  1. New Tables
+    - classification_feedback
+      - id (uuid, primary key)
+      - user_id (uuid, references auth.users)
+      - text (text): the classified text
+      - predicted_category (text): what the classifier said
+      - corrected_category (text): what the user says it should be
+      - article_url (text, nullable): set when the correction came from an article card
+      - created_at (timestamp)
+
+  2. Security
+    - Enable RLS
+    - Users can add and read their own corrections. The re-weighting job
+      reads every correction with the service role key.
+*/
+
+CREATE TABLE IF NOT EXISTS classification_feedback (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users NOT NULL,
+  text text NOT NULL,
+  predicted_category text NOT NULL,
+  corrected_category text NOT NULL,
+  article_url text,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE classification_feedback ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own feedback"
+  ON classification_feedback
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own feedback"
+  ON classification_feedback
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,60 @@
+/*
+  # News proxy quotas
+
+  1. New Tables
+    - news_proxy_usage
+      - user_id (uuid, references auth.users)
+      - day (date): UTC day the requests were made
+      - requests (integer): requests proxied for the user that day
+
+  2. Functions
+    - consume_news_quota(p_user_id, p_limit): counts one request and returns
+      how many the user has left today, or -1 once the limit is used up
+
+  3. Security
+    - Enable RLS
+    - Users can read their own usage. Only the news-proxy edge function,
+      using the service role key, records requests.
+*/
+
+CREATE TABLE IF NOT EXISTS news_proxy_usage (
+  user_id uuid REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  day date NOT NULL DEFAULT (now() AT TIME ZONE 'utc')::date,
+  requests integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, day)
+);
+
+ALTER TABLE news_proxy_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own proxy usage"
+  ON news_proxy_usage
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- The upsert makes concurrent requests from one user count correctly
+CREATE OR REPLACE FUNCTION consume_news_quota(p_user_id uuid, p_limit integer)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  used integer;
+BEGIN
+  INSERT INTO news_proxy_usage (user_id, day, requests)
+  VALUES (p_user_id, (now() AT TIME ZONE 'utc')::date, 1)
+  ON CONFLICT (user_id, day)
+  DO UPDATE SET requests = news_proxy_usage.requests + 1
+  WHERE news_proxy_usage.requests < p_limit
+  RETURNING requests INTO used;
+
+  IF used IS NULL THEN
+    RETURN -1;
+  END IF;
+  RETURN p_limit - used;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION consume_news_quota(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_news_quota(uuid, integer) TO service_role;
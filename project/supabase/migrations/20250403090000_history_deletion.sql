@@ -0,0 +1,20 @@
+/*
+  # Deleting reading history
+
+  1. Security
+    - user_history: users can delete their own rows, so accidental clicks
+      stop counting toward their statistics and recommendations
+
+  2. Indexes
+    - user_history (user_id, read_at desc) for paging through the history
+      page newest first
+*/
+
+CREATE POLICY "Users can delete own history"
+  ON user_history
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS user_history_user_read_at_idx
+  ON user_history (user_id, read_at DESC);
@@ -0,0 +1,28 @@
+/*
+  # Muting in user preferences
+
+  1. Changes
+    - user_preferences
+      - muted_categories (text[]): categories hidden from the feed and recommendations
+      - muted_sources (text[]): outlet names hidden the same way
+      - one row per user, so the app can upsert on user_id
+
+  2. Data
+    - Keep only the most recently updated row for users with several
+*/
+
+ALTER TABLE user_preferences
+  ADD COLUMN IF NOT EXISTS muted_categories text[] NOT NULL DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS muted_sources text[] NOT NULL DEFAULT '{}';
+
+DELETE FROM user_preferences
+  WHERE id IN (
+    SELECT id FROM (
+      SELECT id, row_number() OVER (PARTITION BY user_id ORDER BY last_updated DESC) AS position
+      FROM user_preferences
+    ) ranked
+    WHERE position > 1
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS user_preferences_user_id_key
+  ON user_preferences (user_id);
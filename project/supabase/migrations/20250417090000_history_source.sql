@@ -0,0 +1,12 @@
+/*
+  # Reading history sources
+
+  1. Changes
+    - user_history
+      - source (text, nullable): the outlet the article came from, for the
+        analytics page's top sources. Rows recorded before this stay null and
+        are counted as "Unknown".
+*/
+
+ALTER TABLE user_history
+  ADD COLUMN IF NOT EXISTS source text;
@@ -0,0 +1,186 @@
+/*
+  # Canonical articles and de-duplicated history
+
+  1. New Tables
+    - articles: one row per article, shared by every user who read it
+      - id (text, primary key): hex SHA-256 of the normalized URL
+        (src/lib/articleIdentity.ts)
+      - url (text, unique, nullable): the normalized URL
+      - created_at (timestamp)
+    - read_events: one row per time a user opened an article, so reading
+      statistics still see every read
+      - id (uuid, primary key)
+      - history_id (uuid, references user_history, cascades on delete)
+      - user_id (uuid, references auth.users)
+      - read_at (timestamp)
+
+  2. Changes
+    - user_history
+      - article_id now references articles.id; one row per user and article
+      - read_at is the latest read, first_read_at the first one
+      - read_count (integer): how often the user opened the article
+      - published_at (timestamp, nullable): when the article came out
+      - title, description, image_url, source and published_at stay on the
+        history row. They come from the reader's feed, so one user's copy
+        must not become what other users see.
+
+  3. Data
+    - Existing rows only stored a title as article_id. Their articles get the
+      ID sha256('title:' || lower(trim(title))) and no URL.
+    - Every existing row becomes a read event of the history row its article
+      is folded into, before repeat reads of one article are folded into
+      its latest row, keeping the count and the first read time.
+
+  4. Functions
+    - record_article_read(...): registers the article's ID and URL if they
+      are new, counts a read for the signed-in user with the metadata their
+      feed showed and logs a read event, returning their read count
+
+  5. Security
+    - Enable RLS on articles; any signed-in user can read them. Articles are
+      only written through record_article_read, and hold nothing the caller
+      can choose beyond the URL their ID is derived from.
+    - Enable RLS on read_events; users can read their own. Events are only
+      written through record_article_read, and deleting a history row
+      deletes its events.
+
+  6. Indexes
+    - read_events (user_id, read_at) for the analytics page's date ranges
+*/
+
+CREATE TABLE IF NOT EXISTS articles (
+  id text PRIMARY KEY,
+  url text UNIQUE,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE articles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can read articles"
+  ON articles
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+ALTER TABLE user_history
+  ADD COLUMN IF NOT EXISTS first_read_at timestamptz DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS read_count integer NOT NULL DEFAULT 1,
+  ADD COLUMN IF NOT EXISTS published_at timestamptz;
+
+UPDATE user_history
+  SET article_id = encode(sha256(convert_to('title:' || lower(trim(title)), 'UTF8')), 'hex');
+
+CREATE TABLE IF NOT EXISTS read_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  history_id uuid REFERENCES user_history ON DELETE CASCADE NOT NULL,
+  user_id uuid REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  read_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE read_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own read events"
+  ON read_events
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE INDEX IF NOT EXISTS read_events_user_read_at_idx
+  ON read_events (user_id, read_at);
+
+-- Each read points at the row that survives the folding below
+INSERT INTO read_events (history_id, user_id, read_at)
+  SELECT
+    first_value(id) OVER (PARTITION BY user_id, article_id ORDER BY read_at DESC, id),
+    user_id,
+    coalesce(read_at, now())
+  FROM user_history;
+
+INSERT INTO articles (id)
+  SELECT DISTINCT article_id FROM user_history
+  ON CONFLICT (id) DO NOTHING;
+
+WITH reads AS (
+  SELECT
+    id,
+    row_number() OVER (PARTITION BY user_id, article_id ORDER BY read_at DESC, id) AS position,
+    count(*) OVER (PARTITION BY user_id, article_id) AS total,
+    min(read_at) OVER (PARTITION BY user_id, article_id) AS first_read
+  FROM user_history
+)
+UPDATE user_history
+  SET read_count = reads.total, first_read_at = reads.first_read
+  FROM reads
+  WHERE user_history.id = reads.id AND reads.position = 1;
+
+DELETE FROM user_history
+  USING (
+    SELECT id, row_number() OVER (PARTITION BY user_id, article_id ORDER BY read_at DESC, id) AS position
+    FROM user_history
+  ) ranked
+  WHERE user_history.id = ranked.id AND ranked.position > 1;
+
+ALTER TABLE user_history
+  ADD CONSTRAINT user_history_article_id_fkey FOREIGN KEY (article_id) REFERENCES articles (id),
+  ADD CONSTRAINT user_history_user_article_key UNIQUE (user_id, article_id);
+
+-- Runs as the owner so users can add articles without write access to the
+-- table; the history row is always the caller's own
+CREATE OR REPLACE FUNCTION record_article_read(
+  p_article_id text,
+  p_url text,
+  p_title text,
+  p_description text,
+  p_image_url text,
+  p_source text,
+  p_published_at timestamptz,
+  p_category text,
+  p_categories text[]
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_history_id uuid;
+  reads integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  INSERT INTO articles (id, url)
+  VALUES (p_article_id, p_url)
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO user_history (
+    user_id, article_id, title, description, image_url, source, published_at,
+    category, categories, read_at, first_read_at, read_count
+  )
+  VALUES (
+    auth.uid(), p_article_id, p_title, p_description, p_image_url, p_source, p_published_at,
+    p_category, p_categories, now(), now(), 1
+  )
+  ON CONFLICT (user_id, article_id)
+  DO UPDATE SET
+    read_at = now(),
+    read_count = user_history.read_count + 1,
+    title = EXCLUDED.title,
+    description = EXCLUDED.description,
+    image_url = EXCLUDED.image_url,
+    source = EXCLUDED.source,
+    published_at = EXCLUDED.published_at,
+    category = EXCLUDED.category,
+    categories = EXCLUDED.categories
+  RETURNING id, read_count INTO v_history_id, reads;
+
+  INSERT INTO read_events (history_id, user_id, read_at)
+  VALUES (v_history_id, auth.uid(), now());
+
+  RETURN reads;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_article_read(text, text, text, text, text, text, timestamptz, text, text[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_article_read(text, text, text, text, text, text, timestamptz, text, text[]) TO authenticated;
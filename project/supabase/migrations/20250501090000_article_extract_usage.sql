@@ -0,0 +1,61 @@
+/*
+  # Article extraction quotas
+
+  1. New Tables
+    - article_extract_usage
+      - user_id (uuid, references auth.users)
+      - day (date): UTC day the pages were extracted
+      - requests (integer): extractions made for the user that day
+
+  2. Functions
+    - consume_extract_quota(p_user_id, p_limit): counts one extraction and
+      returns how many the user has left today, or -1 once the limit is used up
+
+  3. Security
+    - Enable RLS
+    - Users can read their own usage. Only the extract-article edge function,
+      using the service role key, records extractions.
+*/
+
+CREATE TABLE IF NOT EXISTS article_extract_usage (
+  user_id uuid REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  day date NOT NULL DEFAULT (now() AT TIME ZONE 'utc')::date,
+  requests integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (user_id, day)
+);
+
+ALTER TABLE article_extract_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read own extraction usage"
+  ON article_extract_usage
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Same counting as consume_news_quota, kept separate so extracting the
+-- articles of a feed does not use up its news requests
+CREATE OR REPLACE FUNCTION consume_extract_quota(p_user_id uuid, p_limit integer)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  used integer;
+BEGIN
+  INSERT INTO article_extract_usage (user_id, day, requests)
+  VALUES (p_user_id, (now() AT TIME ZONE 'utc')::date, 1)
+  ON CONFLICT (user_id, day)
+  DO UPDATE SET requests = article_extract_usage.requests + 1
+  WHERE article_extract_usage.requests < p_limit
+  RETURNING requests INTO used;
+
+  IF used IS NULL THEN
+    RETURN -1;
+  END IF;
+  RETURN p_limit - used;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION consume_extract_quota(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_extract_quota(uuid, integer) TO service_role;
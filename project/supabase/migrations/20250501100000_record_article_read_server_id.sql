@@ -0,0 +1,85 @@
+/*
+  # Article IDs computed by the database
+
+  1. Functions
+    - record_article_read(p_url, ...) replaces the version that took the
+      article ID from the caller. The ID is now the hex SHA-256 of p_url,
+      computed here, so a caller cannot file an article under another
+      article's ID.
+    - p_url must be an http(s) URL. The client still normalizes it first
+      (src/lib/articleIdentity.ts), so every link to an article hashes alike.
+    - A new article only skips the insert when its ID already exists. An ID
+      follows from its URL, so the url UNIQUE constraint cannot conflict with
+      a different ID any more.
+    - Title, description, image, source and publish date are written to the
+      caller's history row only, as in 20250424090000_canonical_articles.sql.
+*/
+
+DROP FUNCTION IF EXISTS record_article_read(text, text, text, text, text, text, timestamptz, text, text[]);
+
+-- Runs as the owner so users can register articles without write access to
+-- the table; the history row is always the caller's own
+CREATE OR REPLACE FUNCTION record_article_read(
+  p_url text,
+  p_title text,
+  p_description text,
+  p_image_url text,
+  p_source text,
+  p_published_at timestamptz,
+  p_category text,
+  p_categories text[]
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_article_id text;
+  v_history_id uuid;
+  reads integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+  IF p_url IS NULL OR p_url !~* '^https?://[^/?#[:space:]]+' THEN
+    RAISE EXCEPTION 'Article URL must be an http or https URL';
+  END IF;
+
+  v_article_id := encode(sha256(convert_to(p_url, 'UTF8')), 'hex');
+
+  INSERT INTO articles (id, url)
+  VALUES (v_article_id, p_url)
+  ON CONFLICT (id) DO NOTHING;
+
+  -- The metadata is the caller's own copy; other users never see it
+  INSERT INTO user_history (
+    user_id, article_id, title, description, image_url, source, published_at,
+    category, categories, read_at, first_read_at, read_count
+  )
+  VALUES (
+    auth.uid(), v_article_id, p_title, p_description, p_image_url, p_source, p_published_at,
+    p_category, p_categories, now(), now(), 1
+  )
+  ON CONFLICT (user_id, article_id)
+  DO UPDATE SET
+    read_at = now(),
+    read_count = user_history.read_count + 1,
+    title = EXCLUDED.title,
+    description = EXCLUDED.description,
+    image_url = EXCLUDED.image_url,
+    source = EXCLUDED.source,
+    published_at = EXCLUDED.published_at,
+    category = EXCLUDED.category,
+    categories = EXCLUDED.categories
+  RETURNING id, read_count INTO v_history_id, reads;
+
+  INSERT INTO read_events (history_id, user_id, read_at)
+  VALUES (v_history_id, auth.uid(), now());
+
+  RETURN reads;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_article_read(text, text, text, text, text, timestamptz, text, text[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_article_read(text, text, text, text, text, timestamptz, text, text[]) TO authenticated;